@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Nav from "@/components/layout/Nav";
+import PortableText from "@/components/sanity/PortableText";
+import {
+  getAllPages,
+  getGlobalSettings,
+  getPageBySlug,
+  unwrapQuery,
+  unwrapQueryOrNotFound,
+} from "@/lib/queries";
+import { isReservedPageSlug } from "@/lib/routes";
+import { buildMetadata } from "@/lib/seo";
+
+/**
+ * CMS page at /[slug]
+ *
+ * Resolves "page" documents (About, Contact, Imprint, ...) by slug so editors can
+ * publish static pages without a code change. Slugs reserved for app routes 404.
+ */
+
+type CmsPageProps = {
+  params: { slug: string };
+};
+
+export async function generateStaticParams() {
+  const pages = unwrapQuery(await getAllPages());
+  return pages
+    .map((page) => page.slug?.current)
+    .filter((slug): slug is string => !!slug && !isReservedPageSlug(slug))
+    .map((slug) => ({ slug }));
+}
+
+export async function generateMetadata({ params }: CmsPageProps): Promise<Metadata> {
+  if (isReservedPageSlug(params.slug)) return {};
+
+  const [pageResult, settingsResult] = await Promise.all([
+    getPageBySlug(params.slug),
+    getGlobalSettings(),
+  ]);
+  const page = unwrapQuery(pageResult);
+  const globalSettings = unwrapQuery(settingsResult);
+
+  if (!page) return {};
+
+  return buildMetadata({
+    title: page.title,
+    description: page.description,
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function CmsPage({ params }: CmsPageProps) {
+  if (isReservedPageSlug(params.slug)) {
+    notFound();
+  }
+
+  const page = unwrapQueryOrNotFound(await getPageBySlug(params.slug));
+
+  return (
+    <main className="relative min-h-screen w-full p-[20px] pl-[30vw]">
+      <div className="fixed left-[20px] top-[20px] z-10">
+        <Nav variant="detail" label={page.title ?? undefined} />
+      </div>
+      <div className="flex max-w-[800px] flex-col gap-[1.2em]">
+        <PortableText content={page.content} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import Nav from "@/components/layout/Nav";
+
+/**
+ * Error boundary for site pages
+ *
+ * Rendered when a page's content could not be fetched (query layer throws on a
+ * failed fetch rather than rendering empty content). During ISR revalidation the
+ * error is never cached: the last good version of the page keeps being served.
+ */
+export default function SiteError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  useEffect(() => {
+    console.error(error);
+  }, [error]);
+
+  return (
+    <main className="relative min-h-screen w-full p-[20px] pl-[30vw]">
+      <div className="fixed left-[20px] top-[20px] z-10">
+        <Nav variant="detail" />
+      </div>
+      <div className="bodycopy flex flex-col items-start gap-[10px] text-left">
+        <p>This page could not be loaded.</p>
+        <button type="button" onClick={reset} className="underline hover:opacity-70">
+          Try again
+        </button>
+      </div>
+    </main>
+  );
+}
@@ -1,14 +1,34 @@
+import type { Metadata } from "next";
+import InformationContent from "@/components/layout/InformationContent";
 import Nav from "@/components/layout/Nav";
+import { getGlobalSettings, getInformation, unwrapQuery } from "@/lib/queries";
+import { buildMetadata } from "@/lib/seo";
 
 /**
  * Information page at /information
+ *
+ * Fetches the single "Information" document from Sanity (bio, contact, representation, CV).
  */
-export default function InformationPage() {
+export async function generateMetadata(): Promise<Metadata> {
+  const globalSettings = unwrapQuery(await getGlobalSettings());
+
+  return buildMetadata({
+    title: "Information",
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function InformationPage() {
+  const information = unwrapQuery(await getInformation());
+
   return (
-    <div className="relative min-h-screen p-[20px]">
+    <div className="relative min-h-screen p-[20px] pl-[30vw]">
       <div className="fixed left-[20px] top-[20px] z-10">
-        <Nav variant="information" />
+        <Nav variant="detail" label="Information" />
       </div>
+      {information && <InformationContent information={information} />}
     </div>
   );
 }
@@ -1,22 +1,45 @@
 import type { Metadata } from "next";
-import { getGlobalSettings } from "@/lib/queries";
+import { draftMode } from "next/headers";
+import NavigationProvider from "@/components/layout/NavigationProvider";
+import PreviewBanner from "@/components/layout/PreviewBanner";
+import { FEED_PATHS } from "@/lib/feed";
+import { toSiteNavigation } from "@/lib/navigation";
+import { getGlobalSettings, unwrapQuery } from "@/lib/queries";
+import { absoluteUrl } from "@/lib/routes";
 import { buildMetadata } from "@/lib/seo";
 
 export async function generateMetadata(): Promise<Metadata> {
-  const globalSettings = await getGlobalSettings();
-  
-  return buildMetadata({
-    siteTitle: globalSettings?.siteTitle,
-    siteDescription: globalSettings?.siteDescription,
-    defaultOgImage: globalSettings?.defaultOgImage,
-  });
+  const globalSettings = unwrapQuery(await getGlobalSettings());
+  const feedTitle = globalSettings?.siteTitle || "Michael Wolever";
+
+  return {
+    ...buildMetadata({
+      siteTitle: globalSettings?.siteTitle,
+      siteDescription: globalSettings?.siteDescription,
+      defaultOgImage: globalSettings?.defaultOgImage,
+    }),
+    // Feed autodiscovery <link rel="alternate"> tags
+    alternates: {
+      types: {
+        "application/rss+xml": [{ url: absoluteUrl(FEED_PATHS.rss), title: feedTitle }],
+        "application/atom+xml": [{ url: absoluteUrl(FEED_PATHS.atom), title: feedTitle }],
+        "application/feed+json": [{ url: absoluteUrl(FEED_PATHS.json), title: feedTitle }],
+      },
+    },
+  };
 }
 
-export default function SiteLayout({
+export default async function SiteLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  return <>{children}</>;
-}
+  const globalSettings = unwrapQuery(await getGlobalSettings());
 
+  return (
+    <NavigationProvider navigation={toSiteNavigation(globalSettings)}>
+      {children}
+      {draftMode().isEnabled && <PreviewBanner />}
+    </NavigationProvider>
+  );
+}
@@ -1,5 +1,5 @@
 import HomePageContent from "@/components/layout/HomePageContent";
-import { getHomepage } from "@/lib/queries";
+import { getHomepage, unwrapQuery } from "@/lib/queries";
 
 /**
  * Homepage
@@ -7,10 +7,8 @@ import { getHomepage } from "@/lib/queries";
  * Fetches the single "Homepage" document from Sanity (slideshow items only).
  * Create a "Homepage" document in Sanity Studio and add slideshow items.
  */
-export const revalidate = 60;
-
 export default async function Home() {
-  const homepage = await getHomepage();
+  const homepage = unwrapQuery(await getHomepage());
   const items = homepage?.items ?? [];
 
   return (
@@ -0,0 +1,91 @@
+import Link from "next/link";
+import OptimizedImage from "@/components/images/OptimizedImage";
+import type { PostSummary } from "@/lib/queries";
+import { formatDate } from "@/lib/utils";
+
+/** Number of posts per index page (/posts is page 1, /posts/page/2 onwards) */
+export const POSTS_PER_PAGE = 10;
+
+/** URL of a posts index page; page 1 lives at /posts */
+export function postsPageHref(page: number): string {
+  return page <= 1 ? "/posts" : `/posts/page/${page}`;
+}
+
+type PostsIndexProps = {
+  posts: PostSummary[];
+  page: number;
+  totalPages: number;
+};
+
+/**
+ * Posts index: one row per post (featured image, date, title, description)
+ * with newer/older pagination links.
+ */
+export default function PostsIndex({ posts, page, totalPages }: PostsIndexProps) {
+  if (posts.length === 0) {
+    return <p className="bodycopy">No posts yet.</p>;
+  }
+
+  return (
+    <div className="flex max-w-[800px] flex-col gap-[40px]">
+      <ul className="flex flex-col gap-[20px]">
+        {posts.map((post) => {
+          const slug = post.slug?.current;
+          if (!slug) return null;
+
+          return (
+            <li key={post._id}>
+              <Link
+                href={`/posts/${slug}`}
+                className="group flex gap-[15px] text-inherit no-underline"
+              >
+                <div className="relative aspect-[4/5] w-[160px] shrink-0 overflow-hidden">
+                  {post.featuredImage?.asset && (
+                    <OptimizedImage
+                      image={post.featuredImage}
+                      alt={post.title ?? ""}
+                      fill
+                      sizes="160px"
+                      objectFit="cover"
+                    />
+                  )}
+                </div>
+                <div className="bodycopy flex flex-col gap-0 text-left align-top">
+                  {post.publishedAt && (
+                    <time dateTime={post.publishedAt} className="!text-[var(--identity-color)]">
+                      {formatDate(post.publishedAt)}
+                    </time>
+                  )}
+                  <span className="group-hover:underline">{post.title || "Untitled"}</span>
+                  {post.description && <p className="bodycopy m-0">{post.description}</p>}
+                </div>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+
+      {totalPages > 1 && (
+        <nav className="bodycopy flex gap-[15px]" aria-label="Posts pagination">
+          {page > 1 ? (
+            <Link href={postsPageHref(page - 1)} className="text-inherit no-underline hover:underline">
+              Newer
+            </Link>
+          ) : (
+            <span className="opacity-30">Newer</span>
+          )}
+          <span>
+            {page}/{totalPages}
+          </span>
+          {page < totalPages ? (
+            <Link href={postsPageHref(page + 1)} className="text-inherit no-underline hover:underline">
+              Older
+            </Link>
+          ) : (
+            <span className="opacity-30">Older</span>
+          )}
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import type { Metadata } from "next";
+import OptimizedImage from "@/components/images/OptimizedImage";
+import PortableText from "@/components/sanity/PortableText";
+import {
+  getAllPosts,
+  getGlobalSettings,
+  getPostBySlug,
+  unwrapQuery,
+  unwrapQueryOrNotFound,
+} from "@/lib/queries";
+import { buildMetadata } from "@/lib/seo";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Single post page at /posts/[slug]
+ */
+
+type PostPageProps = {
+  params: { slug: string };
+};
+
+export async function generateStaticParams() {
+  const posts = unwrapQuery(await getAllPosts());
+  return posts
+    .filter((post) => post.slug?.current)
+    .map((post) => ({ slug: post.slug!.current }));
+}
+
+export async function generateMetadata({ params }: PostPageProps): Promise<Metadata> {
+  const [postResult, settingsResult] = await Promise.all([
+    getPostBySlug(params.slug),
+    getGlobalSettings(),
+  ]);
+  const post = unwrapQuery(postResult);
+  const globalSettings = unwrapQuery(settingsResult);
+
+  if (!post) return {};
+
+  return buildMetadata({
+    title: post.title,
+    description: post.description,
+    image: post.featuredImage,
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function PostPage({ params }: PostPageProps) {
+  const post = unwrapQueryOrNotFound(await getPostBySlug(params.slug));
+
+  return (
+    <article className="flex max-w-[800px] flex-col gap-[20px]">
+      <header className="bodycopy flex flex-col gap-0 text-left">
+        {post.publishedAt && (
+          <time dateTime={post.publishedAt} className="!text-[var(--identity-color)]">
+            {formatDate(post.publishedAt)}
+          </time>
+        )}
+        <h1 className="bodycopy m-0">{post.title || "Untitled"}</h1>
+      </header>
+      {post.featuredImage?.asset && (
+        <div className="relative aspect-[4/3] w-full overflow-hidden">
+          <OptimizedImage
+            image={post.featuredImage}
+            alt={post.title ?? ""}
+            fill
+            sizes="(max-width: 768px) 100vw, 800px"
+            objectFit="cover"
+            priority
+          />
+        </div>
+      )}
+      <div className="flex flex-col gap-[1.2em]">
+        <PortableText content={post.content} />
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,19 @@
+import Nav from "@/components/layout/Nav";
+
+/**
+ * Posts layout for /posts, /posts/page/[page] and /posts/[slug]
+ */
+export default function PostsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <main className="relative min-h-screen w-full p-[20px] pl-[30vw]">
+      <div className="fixed left-[20px] top-[20px] z-10">
+        <Nav variant="detail" label="Posts" />
+      </div>
+      {children}
+    </main>
+  );
+}
@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import { getGlobalSettings, getPaginatedPosts, unwrapQuery } from "@/lib/queries";
+import { buildMetadata } from "@/lib/seo";
+import PostsIndex, { POSTS_PER_PAGE } from "./PostsIndex";
+
+/**
+ * Posts index at /posts (first page; later pages at /posts/page/[page])
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  const globalSettings = unwrapQuery(await getGlobalSettings());
+
+  return buildMetadata({
+    title: "Posts",
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function PostsPage() {
+  const { posts, total } = unwrapQuery(await getPaginatedPosts(1, POSTS_PER_PAGE));
+  const totalPages = Math.max(1, Math.ceil(total / POSTS_PER_PAGE));
+
+  return <PostsIndex posts={posts} page={1} totalPages={totalPages} />;
+}
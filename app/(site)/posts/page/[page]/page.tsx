@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { getGlobalSettings, getPaginatedPosts, unwrapQuery } from "@/lib/queries";
+import { buildMetadata } from "@/lib/seo";
+import PostsIndex, { POSTS_PER_PAGE, postsPageHref } from "../../PostsIndex";
+
+/**
+ * Posts index pages 2+ at /posts/page/[page]
+ */
+
+type PostsPageProps = {
+  params: { page: string };
+};
+
+/** Parse the page segment; null for anything that isn't a positive integer */
+function parsePage(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const page = Number(value);
+  return page >= 1 ? page : null;
+}
+
+export async function generateStaticParams() {
+  const { total } = unwrapQuery(await getPaginatedPosts(1, POSTS_PER_PAGE));
+  const totalPages = Math.ceil(total / POSTS_PER_PAGE);
+  return Array.from({ length: Math.max(0, totalPages - 1) }, (_, i) => ({
+    page: String(i + 2),
+  }));
+}
+
+export async function generateMetadata({ params }: PostsPageProps): Promise<Metadata> {
+  const globalSettings = unwrapQuery(await getGlobalSettings());
+
+  return buildMetadata({
+    title: `Posts – Page ${params.page}`,
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function PostsPaginatedPage({ params }: PostsPageProps) {
+  const page = parsePage(params.page);
+  if (page == null) notFound();
+  if (page === 1) redirect(postsPageHref(1));
+
+  const { posts, total } = unwrapQuery(await getPaginatedPosts(page, POSTS_PER_PAGE));
+  const totalPages = Math.ceil(total / POSTS_PER_PAGE);
+  if (page > totalPages) notFound();
+
+  return <PostsIndex posts={posts} page={page} totalPages={totalPages} />;
+}
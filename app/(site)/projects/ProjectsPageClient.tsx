@@ -1,9 +1,18 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
 import Nav from "@/components/layout/Nav";
+import ProjectsFilterBar from "@/components/layout/ProjectsFilterBar";
 import ProjectsGrid from "@/components/layout/ProjectsGrid";
 import type { Project } from "@/lib/queries";
+import {
+  getProjectFilterOptions,
+  PROJECT_PARAM,
+  projectTitleToPlainText,
+  SLIDE_PARAM,
+  type ProjectFilter,
+} from "@/lib/projects";
 
 type OverlayState = {
   projectId: string;
@@ -16,23 +25,112 @@ type ProjectsPageClientProps = {
   projects: Project[];
 };
 
+/** Search params that mirror the filter, e.g. /projects?tag=photography&year=2024 */
+const TAG_PARAM = "tag";
+const YEAR_PARAM = "year";
+
+/** URL key for a project: its slug, or the document id for projects without one */
+function projectUrlKey(project: Project): string {
+  return project.slug?.current ?? project._id;
+}
+
+/** Parse the 1-based slide param into a 0-based index clamped to the project's slides */
+function parseSlideParam(value: string | null, totalSlides: number): number {
+  const slide = Number.parseInt(value ?? "", 10);
+  if (!Number.isFinite(slide) || totalSlides === 0) return 0;
+  return Math.min(Math.max(slide, 1), totalSlides) - 1;
+}
+
+/** Parse the year param; anything but a whole number means no year filter */
+function parseYearParam(value: string | null): number | null {
+  const year = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(year) ? year : null;
+}
+
 export default function ProjectsPageClient({ projects }: ProjectsPageClientProps) {
-  const [overlay, setOverlay] = useState<OverlayState>(null);
-  const [overlaySlideIndex, setOverlaySlideIndex] = useState(0);
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [lastDirection, setLastDirection] = useState<"left" | "right" | null>(null);
   const [directionChangeKey, setDirectionChangeKey] = useState(0);
 
+  // Overlay state lives in the URL so refresh, sharing and back/forward restore it
+  const projectParam = searchParams.get(PROJECT_PARAM);
+  const overlayProject = useMemo(
+    () =>
+      projectParam ? projects.find((p) => projectUrlKey(p) === projectParam) ?? null : null,
+    [projects, projectParam]
+  );
+  const totalSlides = overlayProject?.slideshowImages?.length ?? 0;
+  const overlaySlideIndex = parseSlideParam(searchParams.get(SLIDE_PARAM), totalSlides);
+  const overlay: OverlayState =
+    overlayProject && totalSlides > 0
+      ? {
+          projectId: overlayProject._id,
+          startIndex: overlaySlideIndex,
+          projectTitle: projectTitleToPlainText(overlayProject.title) || "Untitled",
+          totalSlides,
+        }
+      : null;
+
+  // Filter state lives in the URL too; it only dims cells, so slide indices stay stable
+  const tagParam = searchParams.get(TAG_PARAM);
+  const yearParam = searchParams.get(YEAR_PARAM);
+  const filter = useMemo<ProjectFilter>(
+    () => ({ tag: tagParam || null, year: parseYearParam(yearParam) }),
+    [tagParam, yearParam]
+  );
+  const filterOptions = useMemo(() => getProjectFilterOptions(projects), [projects]);
+
+  /**
+   * Push a history entry with the given params set (null: removed), keeping unrelated params.
+   * Next.js syncs native pushState with useSearchParams, so no server round trip is made.
+   */
+  const pushParams = useCallback(
+    (updates: Record<string, string | null>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      for (const [key, value] of Object.entries(updates)) {
+        if (value == null) params.delete(key);
+        else params.set(key, value);
+      }
+      const query = params.toString();
+      window.history.pushState(null, "", query ? `${pathname}?${query}` : pathname);
+    },
+    [pathname, searchParams]
+  );
+
+  /** Push a history entry for the overlay (or its absence) */
+  const pushOverlayUrl = useCallback(
+    (project: Project | null, slideIndex = 0) =>
+      pushParams({
+        [PROJECT_PARAM]: project ? projectUrlKey(project) : null,
+        [SLIDE_PARAM]: project ? String(slideIndex + 1) : null,
+      }),
+    [pushParams]
+  );
+
+  const changeFilter = useCallback(
+    (next: ProjectFilter) =>
+      pushParams({
+        [TAG_PARAM]: next.tag,
+        [YEAR_PARAM]: next.year != null ? String(next.year) : null,
+      }),
+    [pushParams]
+  );
+
   const openOverlay = useCallback(
-    (projectId: string, startIndex: number, projectTitle: string, totalSlides: number) => {
-      setOverlay({ projectId, startIndex, projectTitle, totalSlides });
-      setOverlaySlideIndex(startIndex);
+    (projectId: string, startIndex: number) => {
+      const project = projects.find((p) => p._id === projectId) ?? null;
+      if (project) pushOverlayUrl(project, startIndex);
     },
-    []
+    [projects, pushOverlayUrl]
+  );
+  const closeOverlay = useCallback(() => pushOverlayUrl(null), [pushOverlayUrl]);
+  const handleOverlaySlideChange = useCallback(
+    (index: number) => {
+      if (overlayProject) pushOverlayUrl(overlayProject, index);
+    },
+    [overlayProject, pushOverlayUrl]
   );
-  const closeOverlay = useCallback(() => setOverlay(null), []);
-  const handleOverlaySlideChange = useCallback((index: number) => {
-    setOverlaySlideIndex(index);
-  }, []);
   const handleOverlayPrevClick = useCallback(() => {
     setLastDirection("left");
     setDirectionChangeKey((k) => k + 1);
@@ -55,11 +153,17 @@ export default function ProjectsPageClient({ projects }: ProjectsPageClientProps
             directionChangeKey={directionChangeKey}
           />
         ) : (
-          <Nav variant="projects" />
+          <Nav variant="detail" label="Projects" />
         )}
       </div>
+      {!overlay && (
+        <div className="fixed bottom-[20px] left-[20px] z-10">
+          <ProjectsFilterBar options={filterOptions} filter={filter} onChange={changeFilter} />
+        </div>
+      )}
       <ProjectsGrid
         projects={projects}
+        filter={filter}
         overlay={overlay}
         overlaySlideIndex={overlaySlideIndex}
         onOpenOverlay={openOverlay}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Nav from "@/components/layout/Nav";
+import MediaSlideshow from "@/components/slideshow/MediaSlideshow";
+import type { Project } from "@/lib/queries";
+import {
+  projectTitleToPlainText,
+  projectToMediaSlideshowItems,
+} from "@/lib/projects";
+
+type ProjectPageClientProps = {
+  project: Project;
+};
+
+export default function ProjectPageClient({ project }: ProjectPageClientProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [lastDirection, setLastDirection] = useState<"left" | "right" | null>(null);
+  const [directionChangeKey, setDirectionChangeKey] = useState(0);
+
+  // Stable across slide changes, so MediaSlideshow's preloads keep running
+  const slideshowItems = useMemo(() => projectToMediaSlideshowItems(project), [project]);
+  const projectTitle = projectTitleToPlainText(project.title) || "Untitled";
+  const n = slideshowItems.length;
+
+  const goPrev = () => {
+    setSelectedIndex((i) => (i - 1 + n) % n);
+    setLastDirection("left");
+    setDirectionChangeKey((k) => k + 1);
+  };
+  const goNext = () => {
+    setSelectedIndex((i) => (i + 1) % n);
+    setLastDirection("right");
+    setDirectionChangeKey((k) => k + 1);
+  };
+
+  return (
+    <>
+      <div className="fixed left-[20px] top-[20px] z-10">
+        <Nav
+          variant="hover"
+          currentSlideTitle={projectTitle}
+          currentSlideIndex={selectedIndex}
+          totalSlides={n}
+          lastDirection={lastDirection}
+          directionChangeKey={directionChangeKey}
+        />
+      </div>
+      {/* Same placement as the grid overlay: centred in the viewport, ignoring the grid's left inset */}
+      <div className="fixed inset-0 flex items-center justify-center">
+        <MediaSlideshow
+          items={slideshowItems}
+          currentIndex={selectedIndex}
+          onPrev={goPrev}
+          onNext={goNext}
+          maxHeightClassName="max-h-[600px]"
+          width={800}
+          mediaProps={{
+            sizes: "(max-width: 768px) 100vw, 800px",
+            objectFit: "contain",
+            priority: true,
+          }}
+        />
+      </div>
+    </>
+  );
+}
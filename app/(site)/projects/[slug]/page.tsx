@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
+import {
+  getGlobalSettings,
+  getProjectBySlug,
+  getProjects,
+  unwrapQuery,
+  unwrapQueryOrNotFound,
+} from "@/lib/queries";
+import { projectTitleToPlainText, toMediaItem } from "@/lib/projects";
+import { buildMetadata } from "@/lib/seo";
+import ProjectPageClient from "./ProjectPageClient";
+
+/**
+ * Single project page at /projects/[slug]
+ *
+ * Server-rendered, shareable version of the projects grid overlay:
+ * same MediaSlideshow and Nav "hover" variant, one project per URL.
+ */
+
+type ProjectPageProps = {
+  params: { slug: string };
+};
+
+export async function generateStaticParams() {
+  const projects = unwrapQuery(await getProjects());
+  return projects
+    .filter((project) => project.slug?.current)
+    .map((project) => ({ slug: project.slug!.current }));
+}
+
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const [projectResult, settingsResult] = await Promise.all([
+    getProjectBySlug(params.slug),
+    getGlobalSettings(),
+  ]);
+  const project = unwrapQuery(projectResult);
+  const globalSettings = unwrapQuery(settingsResult);
+
+  if (!project) return {};
+
+  // First image slide (videos have no image asset) for the OG image
+  const firstImage = (project.slideshowImages ?? [])
+    .map((item) => toMediaItem(item))
+    .find((media) => media && media._type !== "video" && media.asset);
+
+  return buildMetadata({
+    title: projectTitleToPlainText(project.title) || "Untitled",
+    image: (firstImage as SanityImageSource | undefined) ?? undefined,
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const project = unwrapQueryOrNotFound(await getProjectBySlug(params.slug));
+
+  // A project without slides has nothing to show
+  if (!project.slideshowImages?.length) {
+    notFound();
+  }
+
+  return <ProjectPageClient project={project} />;
+}
@@ -1,8 +1,6 @@
 /**
  * Projects layout for /projects
  */
-export const revalidate = 60;
-
 export default function ProjectsLayout({
   children,
 }: {
@@ -1,13 +1,38 @@
-import { getProjects } from "@/lib/queries";
+import { Suspense } from "react";
+import Nav from "@/components/layout/Nav";
+import ProjectsFilterBar from "@/components/layout/ProjectsFilterBar";
+import ProjectsGrid from "@/components/layout/ProjectsGrid";
+import { getProjectFilterOptions, NO_PROJECT_FILTER } from "@/lib/projects";
+import { getProjects, unwrapQuery } from "@/lib/queries";
 import ProjectsPageClient from "./ProjectsPageClient";
 
 /**
  * Projects page: nav + grid; in slideshow overlay mode nav shows project title, counter, and hover state like homepage.
+ * The open overlay and the tag/year filter are mirrored in the URL
+ * (?project=<slug>&slide=3, ?tag=<tag slug>&year=2024), read on the client.
  */
-export const revalidate = 60;
-
 export default async function ProjectsPage() {
-  const projects = await getProjects();
+  const projects = unwrapQuery(await getProjects());
 
-  return <ProjectsPageClient projects={projects} />;
+  return (
+    // useSearchParams needs a Suspense boundary; the fallback is the static, unfiltered grid with the overlay closed
+    <Suspense
+      fallback={
+        <>
+          <div className="fixed left-[20px] top-[20px] z-10">
+            <Nav variant="detail" label="Projects" />
+          </div>
+          <div className="fixed bottom-[20px] left-[20px] z-10">
+            <ProjectsFilterBar
+              options={getProjectFilterOptions(projects)}
+              filter={NO_PROJECT_FILTER}
+            />
+          </div>
+          <ProjectsGrid projects={projects} />
+        </>
+      }
+    >
+      <ProjectsPageClient projects={projects} />
+    </Suspense>
+  );
 }
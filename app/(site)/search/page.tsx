@@ -0,0 +1,76 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import Nav from "@/components/layout/Nav";
+import { getGlobalSettings, getSearchResults, unwrapQuery } from "@/lib/queries";
+import { groupSearchResults, MAX_QUERY_LENGTH, SEARCH_LIMIT, toSearchTerms } from "@/lib/search";
+import { buildMetadata } from "@/lib/seo";
+
+/**
+ * Search page at /search?q=<query>
+ *
+ * Projects, posts and pages matching the query, grouped by type. The Nav command
+ * palette (⌘K or "/") searches the same way and links here for all results.
+ */
+
+type SearchPageProps = {
+  searchParams: { q?: string | string[] };
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const globalSettings = unwrapQuery(await getGlobalSettings());
+
+  return buildMetadata({
+    title: "Search",
+    siteTitle: globalSettings?.siteTitle,
+    siteDescription: globalSettings?.siteDescription,
+    defaultOgImage: globalSettings?.defaultOgImage,
+  });
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const query = typeof searchParams.q === "string" ? searchParams.q : "";
+  const terms = toSearchTerms(query);
+  const groups =
+    terms.length > 0 ? groupSearchResults(unwrapQuery(await getSearchResults(terms, SEARCH_LIMIT))) : [];
+
+  return (
+    <main className="relative min-h-screen w-full p-[20px] pl-[30vw]">
+      <div className="fixed left-[20px] top-[20px] z-10">
+        <Nav variant="detail" label="Search" />
+      </div>
+      <div className="flex max-w-[800px] flex-col gap-[40px]">
+        <form action="/search" role="search">
+          <input
+            type="search"
+            name="q"
+            defaultValue={query}
+            maxLength={MAX_QUERY_LENGTH}
+            placeholder="Search projects, posts and pages"
+            aria-label="Search"
+            className="bodycopy w-full border-b border-current bg-transparent pb-[5px] outline-none"
+          />
+        </form>
+
+        {terms.length > 0 && groups.length === 0 && (
+          <p className="bodycopy">Nothing found for “{query}”.</p>
+        )}
+
+        {groups.map((group) => (
+          <section key={group.type} className="flex flex-col gap-[10px]">
+            <h2 className="bodycopy !text-[var(--identity-color)]">{group.title}</h2>
+            <ul className="flex flex-col gap-[10px]">
+              {group.hits.map((hit) => (
+                <li key={hit.id}>
+                  <Link href={hit.href} className="group bodycopy block text-inherit no-underline">
+                    <span className="group-hover:underline">{hit.title}</span>
+                    {hit.excerpt && <p className="bodycopy m-0 opacity-50">{hit.excerpt}</p>}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,52 @@
+import { timingSafeEqual } from "crypto";
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  getAllPages,
+  getAllPosts,
+  getGlobalSettings,
+  getHomepage,
+  getInformation,
+  getProjects,
+} from "@/lib/queries";
+import { getContentReport } from "@/lib/validation";
+
+/**
+ * Content report: GET /api/content-report with `Authorization: Bearer <SANITY_PREVIEW_SECRET>`
+ *
+ * Re-runs the site-wide queries so every document is validated, then lists the
+ * items lib/validation.ts dropped or repaired (document _id, field path, reason).
+ * The secret is sent as a header, so it stays out of URLs (and access logs).
+ */
+export const dynamic = "force-dynamic";
+
+/** Whether the request carries the secret as a bearer token (constant-time comparison) */
+function hasSecret(req: NextRequest, secret: string): boolean {
+  const match = /^Bearer (.+)$/.exec(req.headers.get("authorization") ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.SANITY_PREVIEW_SECRET;
+
+  if (!secret) {
+    return NextResponse.json({ message: "SANITY_PREVIEW_SECRET is not set" }, { status: 500 });
+  }
+  if (!hasSecret(req, secret)) {
+    return NextResponse.json({ message: "Invalid secret" }, { status: 401 });
+  }
+
+  await Promise.all([
+    getGlobalSettings(),
+    getHomepage(),
+    getInformation(),
+    getProjects(),
+    getAllPages(),
+    getAllPosts(),
+  ]);
+
+  const issues = getContentReport();
+  return NextResponse.json({ count: issues.length, issues });
+}
@@ -0,0 +1,14 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import type { NextRequest } from "next/server";
+import { safeRedirectPath } from "@/lib/routes";
+
+/**
+ * Disable draft mode: /api/draft/disable?redirect=/current/path
+ *
+ * Linked from the preview banner; needs no secret since it only drops back to published content.
+ */
+export async function GET(req: NextRequest) {
+  draftMode().disable();
+  redirect(safeRedirectPath(req.nextUrl.searchParams.get("redirect")));
+}
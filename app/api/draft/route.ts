@@ -0,0 +1,25 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { type NextRequest, NextResponse } from "next/server";
+import { safeRedirectPath } from "@/lib/routes";
+
+/**
+ * Enable draft mode: /api/draft?secret=<SANITY_PREVIEW_SECRET>&redirect=/projects/my-project
+ *
+ * Sets the draft mode cookie and redirects to the page to preview; all queries in
+ * lib/queries.ts then read drafts. Exit through /api/draft/disable.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.SANITY_PREVIEW_SECRET;
+  const { searchParams } = req.nextUrl;
+
+  if (!secret) {
+    return NextResponse.json({ message: "SANITY_PREVIEW_SECRET is not set" }, { status: 500 });
+  }
+  if (searchParams.get("secret") !== secret) {
+    return NextResponse.json({ message: "Invalid secret" }, { status: 401 });
+  }
+
+  draftMode().enable();
+  redirect(safeRedirectPath(searchParams.get("redirect")));
+}
@@ -0,0 +1,53 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { NextResponse } from "next/server";
+import { FIXTURE_ASSET_KINDS, FIXTURES_DIR, resolveFixturesDir } from "@/lib/fixtures";
+
+/**
+ * Fixture asset files
+ *
+ * Stands in for the Sanity CDN when NEXT_PUBLIC_SANITY_FIXTURES is set (see lib/fixtures.ts).
+ * Accepts CDN-shaped paths, /api/fixtures/assets/{images|files}/{projectId}/{dataset}/{filename},
+ * and serves {images|files}/{filename} from the fixture folder. Image transform
+ * parameters (w, h, auto, ...) are ignored: the original file is returned.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".pdf": "application/pdf",
+};
+
+type FixtureAssetParams = {
+  params: { path: string[] };
+};
+
+export async function GET(_req: Request, { params }: FixtureAssetParams) {
+  const [kind, , , filename] = params.path;
+  const isKnownKind = (FIXTURE_ASSET_KINDS as readonly string[]).includes(kind);
+
+  // Only a bare filename inside images/ or files/ (no path traversal)
+  if (!FIXTURES_DIR || !isKnownKind || !filename || filename !== path.basename(filename)) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  try {
+    const file = await readFile(path.join(resolveFixturesDir(), kind, filename));
+    return new NextResponse(file, {
+      headers: {
+        "Content-Type":
+          CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch {
+    return new NextResponse("Not found", { status: 404 });
+  }
+}
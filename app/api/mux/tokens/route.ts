@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  getMuxTokenSigner,
+  MuxSigningKeyError,
+  signMuxPlaybackTokens,
+  MUX_TOKEN_TTL_SECONDS,
+  type MuxTokenSigner,
+} from "@/lib/mux";
+import { getSignedMuxVideo } from "@/lib/queries";
+
+/**
+ * Mux playback tokens: /api/mux/tokens?playbackId=<id>
+ *
+ * Mints playback, thumbnail and storyboard tokens for a video with playbackPolicy
+ * "signed" (see lib/mux.ts), signed with MUX_SIGNING_KEY_ID / MUX_SIGNING_PRIVATE_KEY.
+ * Only playback IDs used by signed videos in the content are signed, so the endpoint
+ * can't unlock other videos of the Mux environment.
+ */
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const playbackId = req.nextUrl.searchParams.get("playbackId");
+  if (!playbackId) {
+    return NextResponse.json({ message: "Missing playbackId" }, { status: 400 });
+  }
+
+  let sign: MuxTokenSigner | null;
+  try {
+    sign = getMuxTokenSigner();
+  } catch (error) {
+    if (!(error instanceof MuxSigningKeyError)) throw error;
+    console.error(error);
+    return NextResponse.json(
+      { message: "MUX_SIGNING_PRIVATE_KEY is not a valid RSA private key" },
+      { status: 500 }
+    );
+  }
+  if (!sign) {
+    return NextResponse.json(
+      { message: "MUX_SIGNING_KEY_ID and MUX_SIGNING_PRIVATE_KEY are not set" },
+      { status: 500 }
+    );
+  }
+
+  const video = await getSignedMuxVideo(playbackId);
+  if (video.status === "error") {
+    return NextResponse.json({ message: video.error.message }, { status: 502 });
+  }
+  if (video.status === "not-found") {
+    return NextResponse.json({ message: "Unknown signed playback ID" }, { status: 404 });
+  }
+
+  // Browsers may reuse the tokens for most of their lifetime
+  return NextResponse.json(signMuxPlaybackTokens(playbackId, sign, video.data.thumbnailTime), {
+    headers: { "Cache-Control": `private, max-age=${MUX_TOKEN_TTL_SECONDS / 2}` },
+  });
+}
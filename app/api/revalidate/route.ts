@@ -0,0 +1,48 @@
+import { revalidatePath, revalidateTag } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+import { parseBody } from "next-sanity/webhook";
+import { getRevalidationTargets } from "@/lib/cache";
+
+/**
+ * Sanity webhook: on-demand revalidation
+ *
+ * Configure a GROQ-powered webhook in sanity.io/manage pointing at /api/revalidate with:
+ * - Projection: {_type, "slug": slug.current, "previousSlug": before().slug.current}
+ * - Secret: same value as SANITY_REVALIDATE_SECRET
+ *
+ * Only the cache tags and paths of the changed document are revalidated (see lib/cache.ts).
+ */
+type WebhookPayload = {
+  _type?: string;
+  slug?: string | null;
+  /** Slug before the change (differs from slug when a document was renamed) */
+  previousSlug?: string | null;
+};
+
+export async function POST(req: NextRequest) {
+  const secret = process.env.SANITY_REVALIDATE_SECRET;
+  if (!secret) {
+    return NextResponse.json({ message: "SANITY_REVALIDATE_SECRET is not set" }, { status: 500 });
+  }
+
+  try {
+    // Third argument waits for Content Lake eventual consistency before we re-query
+    const { isValidSignature, body } = await parseBody<WebhookPayload>(req, secret, true);
+
+    if (!isValidSignature) {
+      return NextResponse.json({ message: "Invalid signature" }, { status: 401 });
+    }
+    if (!body?._type) {
+      return NextResponse.json({ message: "Missing _type in webhook body" }, { status: 400 });
+    }
+
+    const { tags, paths } = getRevalidationTargets(body._type, body.slug, body.previousSlug);
+    tags.forEach((tag) => revalidateTag(tag));
+    paths.forEach((path) => revalidatePath(path));
+
+    return NextResponse.json({ revalidated: true, tags, paths, now: Date.now() });
+  } catch (error) {
+    console.error("Error handling revalidation webhook:", error);
+    return NextResponse.json({ message: "Error handling webhook" }, { status: 500 });
+  }
+}
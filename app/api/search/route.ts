@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getSearchResults } from "@/lib/queries";
+import { groupSearchResults, SEARCH_LIMIT, toSearchTerms, type SearchResponse } from "@/lib/search";
+
+/**
+ * Site search: /api/search?q=<query>
+ *
+ * Grouped projects, posts and pages matching the query (see lib/search.ts), for the
+ * Nav command palette. Queries too short to search return no groups.
+ */
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const query = req.nextUrl.searchParams.get("q") ?? "";
+  const terms = toSearchTerms(query);
+  if (terms.length === 0) {
+    return NextResponse.json<SearchResponse>({ query, groups: [] });
+  }
+
+  const result = await getSearchResults(terms, SEARCH_LIMIT);
+  if (result.status === "error") {
+    return NextResponse.json({ message: result.error.message }, { status: 502 });
+  }
+  return NextResponse.json<SearchResponse>({ query, groups: groupSearchResults(result.data) });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getFeed, renderAtom } from "@/lib/feed";
+
+/**
+ * /atom.xml: Atom 1.0 feed of recent posts and projects
+ */
+export async function GET() {
+  const feed = await getFeed();
+
+  return new NextResponse(renderAtom(feed), {
+    headers: {
+      "Content-Type": "application/atom+xml; charset=utf-8",
+    },
+  });
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Root error boundary
+ *
+ * Catches failures above the site pages' own boundary, e.g. the site layout
+ * failing to fetch global settings.
+ */
+export default function RootError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  useEffect(() => {
+    console.error(error);
+  }, [error]);
+
+  return (
+    <div className="bodycopy flex min-h-screen flex-col items-center justify-center gap-[10px] p-8">
+      <p>Something went wrong.</p>
+      <button type="button" onClick={reset} className="underline hover:opacity-70">
+        Try again
+      </button>
+    </div>
+  );
+}
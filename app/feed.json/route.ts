@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getFeed, renderJsonFeed } from "@/lib/feed";
+
+/**
+ * /feed.json: JSON Feed 1.1 feed of recent posts and projects
+ */
+export async function GET() {
+  const feed = await getFeed();
+
+  return new NextResponse(renderJsonFeed(feed), {
+    headers: {
+      "Content-Type": "application/feed+json; charset=utf-8",
+    },
+  });
+}
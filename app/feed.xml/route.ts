@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getFeed, renderRss } from "@/lib/feed";
+
+/**
+ * /feed.xml: RSS 2.0 feed of recent posts and projects
+ */
+export async function GET() {
+  const feed = await getFeed();
+
+  return new NextResponse(renderRss(feed), {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+    },
+  });
+}
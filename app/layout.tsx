@@ -1,14 +1,18 @@
 import type { Metadata } from "next";
-import { Inter, Oxanium } from "next/font/google";
+import localFont from "next/font/local";
 import "./globals.css";
 
-const inter = Inter({
-  subsets: ["latin"],
+// Self-hosted (latin subset of the variable fonts, OFL licensed, see ./fonts) so builds
+// don't download from Google Fonts and work offline
+const inter = localFont({
+  src: "./fonts/InterVariable-latin.woff2",
+  weight: "100 900",
   variable: "--font-inter",
 });
 
-const oxanium = Oxanium({
-  subsets: ["latin"],
+const oxanium = localFont({
+  src: "./fonts/OxaniumVariable-latin.woff2",
+  weight: "200 800",
   variable: "--font-oxanium",
 });
 
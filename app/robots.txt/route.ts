@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
+import { absoluteUrl } from "@/lib/routes";
 
 export async function GET() {
   const robotsTxt = `User-agent: *
 Allow: /
-Sitemap: ${process.env.NEXT_PUBLIC_SITE_URL || "https://example.com"}/sitemap.xml
+Sitemap: ${absoluteUrl("/sitemap.xml")}
 `;
 
   return new NextResponse(robotsTxt, {
@@ -12,4 +13,3 @@ Sitemap: ${process.env.NEXT_PUBLIC_SITE_URL || "https://example.com"}/sitemap.xm
     },
   });
 }
-
@@ -1,57 +1,22 @@
 import { NextResponse } from "next/server";
-import { sanityClient } from "@/lib/sanity.client";
+import {
+  chunkSitemapEntries,
+  getSitemapEntries,
+  renderSitemapIndex,
+  renderUrlset,
+} from "@/lib/sitemap";
 
+/**
+ * /sitemap.xml: a single <urlset>, or a <sitemapindex> of /sitemap/[n].xml
+ * once the site outgrows one sitemap file.
+ */
 export async function GET() {
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://example.com";
+  const chunks = chunkSitemapEntries(await getSitemapEntries());
+  const sitemap = chunks.length === 1 ? renderUrlset(chunks[0]) : renderSitemapIndex(chunks);
 
-  try {
-    // Fetch all pages with slugs
-    const pages = await sanityClient.fetch<Array<{ slug?: { current: string } }>>(
-      `*[_type in ["homepage", "page", "post"] && defined(slug.current)]{
-        "slug": slug.current
-      }`
-    );
-
-    const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-  <url>
-    <loc>${baseUrl}</loc>
-    <changefreq>daily</changefreq>
-    <priority>1.0</priority>
-  </url>
-${pages
-  .map((page) => {
-    if (!page.slug) return "";
-    return `  <url>
-    <loc>${baseUrl}/${page.slug}</loc>
-    <changefreq>weekly</changefreq>
-    <priority>0.8</priority>
-  </url>`;
-  })
-  .join("\n")}
-</urlset>`;
-
-    return new NextResponse(sitemap, {
-      headers: {
-        "Content-Type": "application/xml",
-      },
-    });
-  } catch {
-    // Fallback sitemap if query fails
-    const fallbackSitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-  <url>
-    <loc>${baseUrl}</loc>
-    <changefreq>daily</changefreq>
-    <priority>1.0</priority>
-  </url>
-</urlset>`;
-
-    return new NextResponse(fallbackSitemap, {
-      headers: {
-        "Content-Type": "application/xml",
-      },
-    });
-  }
+  return new NextResponse(sitemap, {
+    headers: {
+      "Content-Type": "application/xml",
+    },
+  });
 }
-
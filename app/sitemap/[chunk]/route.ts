@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { chunkSitemapEntries, getSitemapEntries, renderUrlset } from "@/lib/sitemap";
+
+/**
+ * /sitemap/[n].xml: one chunk of the sitemap index served at /sitemap.xml
+ */
+export async function GET(_request: Request, { params }: { params: { chunk: string } }) {
+  const match = params.chunk.match(/^(\d+)\.xml$/);
+  const chunks = chunkSitemapEntries(await getSitemapEntries());
+  const chunk = match ? chunks[Number(match[1])] : undefined;
+
+  if (!chunk || chunks.length === 1) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  return new NextResponse(renderUrlset(chunk), {
+    headers: {
+      "Content-Type": "application/xml",
+    },
+  });
+}
@@ -1,19 +1,28 @@
 "use client";
 
 import { useCallback, useRef, useMemo } from "react";
-import Image from "next/image";
+import Image, { getImageProps, type ImageLoader } from "next/image";
 import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
-import { urlForImage } from "@/lib/image";
+import {
+  getHotspotPosition,
+  getImageDimensions,
+  getImagePlaceholder,
+  sanityImageLoader,
+  urlForImage,
+  type ImageDimensions,
+} from "@/lib/image";
 
 /**
  * OptimizedImage Component
  * 
  * A production-grade, universal image component for Sanity images in Next.js 14.
- * Uses Next.js Image Optimization with custom Sanity CDN loader for automatic
+ * Uses next/image with a custom Sanity CDN loader for automatic
  * responsive sizing, modern formats (AVIF/WebP), and optimal performance.
  * 
  * Features:
- * - Full Next.js Image Optimization (automatic srcsets, AVIF/WebP)
+ * - Srcsets resized by the Sanity CDN (sanityImageLoader in lib/image.ts), bypassing the Next.js optimizer
+ * - Studio crop and hotspot honoured: covers are cropped around the hotspot on the CDN (fixed size, or
+ *   fill with `aspectRatio`) and positioned on it with object-position
  * - Automatic responsive image sizing based on sizes prop
  * - TypeScript-first with strong typing
  * 
@@ -24,6 +33,9 @@ import { urlForImage } from "@/lib/image";
  * For remote images, `width` and `height` are used to infer aspect ratio and
  * prevent layout shift - they don't determine the rendered size. You can provide
  * smaller dimensions if you know the maximum rendered width for better optimization.
+ * When the query dereferenced the asset metadata (imageFields in lib/fragments.ts),
+ * a missing side is derived from the true aspect ratio and the image's LQIP is shown
+ * as a blurred placeholder while it loads.
  * 
  * @example
  * // Fill mode (responsive container) - sizes is required!
@@ -60,7 +72,7 @@ export interface OptimizedImageProps {
   fill?: boolean;
   
   /** 
-   * Fixed width (required if not using fill)
+   * Fixed width (required if not using fill, unless the asset metadata has the image's dimensions)
    * 
    * For remote images, this doesn't determine the rendered size - it's used to
    * infer the aspect ratio and prevent layout shift. You can provide smaller
@@ -69,7 +81,7 @@ export interface OptimizedImageProps {
   width?: number;
   
   /** 
-   * Fixed height (required if not using fill)
+   * Fixed height (required if not using fill, unless the asset metadata has the image's dimensions)
    * 
    * For remote images, this doesn't determine the rendered size - it's used to
    * infer the aspect ratio and prevent layout shift. Should match the aspect
@@ -107,12 +119,21 @@ export interface OptimizedImageProps {
   /** Disable Next.js optimization (not recommended) */
   unoptimized?: boolean;
   
+  /** Image quality 1-100, sent to the Sanity CDN as `q` (default 75) */
+  quality?: number;
+  
   /** Object fit style */
   objectFit?: "contain" | "cover" | "fill" | "none" | "scale-down";
   
-  /** Object position style */
+  /** Object position style (defaults to the image's hotspot, when it has one) */
   objectPosition?: string;
   
+  /**
+   * Aspect ratio (width / height) of the fill container, e.g. 4 / 5.
+   * With objectFit "cover", the CDN crops the image to it around the hotspot.
+   */
+  aspectRatio?: number;
+  
   /** Decoding strategy */
   decoding?: "async" | "auto" | "sync";
   
@@ -147,19 +168,112 @@ function getSanityAssetRef(source: SanityImageSource): string | null {
   return image.asset?._ref || image.asset?._id || null;
 }
 
+/**
+ * Size for fixed dimensions mode: a side that wasn't given is derived from the
+ * asset's aspect ratio; with neither, the asset's intrinsic size is used
+ */
+function resolveSize(
+  width: number | undefined,
+  height: number | undefined,
+  dimensions: ImageDimensions
+): { width?: number; height?: number } {
+  const { aspectRatio } = dimensions;
+  if (width != null && height != null) return { width, height };
+  if (!aspectRatio) return { width, height };
+  if (width != null) return { width, height: Math.round(width / aspectRatio) };
+  if (height != null) return { width: Math.round(height * aspectRatio), height };
+  return { width: dimensions.width, height: dimensions.height };
+}
+
+/**
+ * Loader for the props' box: covers of a known box size are cropped to it on the CDN
+ * (around the hotspot) instead of in the browser
+ */
+function getBoxLoader(
+  image: SanityImageSource,
+  { fill, objectFit, width, height, aspectRatio }: Pick<OptimizedImageProps, "fill" | "objectFit" | "width" | "height" | "aspectRatio">
+): ImageLoader {
+  const boxAspectRatio = fill ? aspectRatio : width && height ? width / height : undefined;
+  return sanityImageLoader(image, {
+    aspectRatio: objectFit === "cover" ? boxAspectRatio : undefined,
+  });
+}
+
+/**
+ * Default sizes: the viewport in fill mode; for fixed dimensions, the image is assumed
+ * to be responsive up to its width. This ensures a larger source set is generated.
+ */
+function getDefaultSizes(fill: boolean, width: number | undefined): string {
+  if (fill || !width) return "100vw";
+  // If width is small, assume it's full width on mobile
+  if (width <= 768) {
+    return `(max-width: ${width}px) 100vw, ${width}px`;
+  }
+  // For larger images, assume they scale down on mobile
+  return `(max-width: 768px) 100vw, (max-width: 1200px) 50vw, ${width}px`;
+}
+
+/** What the browser picks a source from: the attributes OptimizedImage renders on its <img> */
+export interface OptimizedImageSource {
+  src: string;
+  srcSet?: string;
+  sizes?: string;
+}
+
+/**
+ * Source attributes OptimizedImage renders for these props, so an image can be preloaded
+ * (e.g. with `new Image()`) at the srcset width the browser will pick once it is shown.
+ * Null when the image has no usable source or size.
+ */
+export function getOptimizedImageSource({
+  image,
+  fill = false,
+  width: widthProp,
+  height: heightProp,
+  sizes,
+  quality,
+  objectFit,
+  aspectRatio,
+}: Pick<
+  OptimizedImageProps,
+  "image" | "fill" | "width" | "height" | "sizes" | "quality" | "objectFit" | "aspectRatio"
+>): OptimizedImageSource | null {
+  if (!getSanityAssetRef(image)) return null;
+  let src: string;
+  try {
+    src = urlForImage(image).url();
+  } catch {
+    return null;
+  }
+  const { width, height } = resolveSize(widthProp, heightProp, getImageDimensions(image));
+  if (!fill && (!width || !height)) return null;
+
+  const { props } = getImageProps({
+    src,
+    alt: "",
+    ...(fill ? { fill: true } : { width, height }),
+    sizes: sizes || getDefaultSizes(fill, width),
+    quality,
+    loader: getBoxLoader(image, { fill, objectFit, width, height, aspectRatio }),
+  });
+  return { src: props.src, srcSet: props.srcSet, sizes: props.sizes };
+}
+
 export default function OptimizedImage({
   image,
   alt,
   className,
   fill = false,
-  width,
-  height,
+  width: widthProp,
+  height: heightProp,
   priority = false,
   loading,
   sizes,
   unoptimized = false,
+  quality,
   objectFit,
-  objectPosition,
+  objectPosition = getHotspotPosition(image),
+  aspectRatio: containerAspectRatio,
   decoding,
   fetchPriority,
   onLoad,
@@ -169,6 +283,10 @@ export default function OptimizedImage({
 
   // Extract Sanity asset ref to check validity
   const assetRef = getSanityAssetRef(image);
+
+  // True size and blurred placeholder from the asset metadata, when queried
+  const { width, height } = resolveSize(widthProp, heightProp, getImageDimensions(image));
+  const { lqip } = getImagePlaceholder(image);
   
   // Generate full image URL from Sanity source
   const src = useMemo(() => {
@@ -180,6 +298,12 @@ export default function OptimizedImage({
     }
   }, [image]);
 
+  // Each srcset width comes from the Sanity CDN
+  const loader = useMemo(
+    () => getBoxLoader(image, { fill, objectFit, width, height, aspectRatio: containerAspectRatio }),
+    [image, fill, objectFit, width, height, containerAspectRatio]
+  );
+
   // Handle image load
   const handleLoad = useCallback(
     (event: React.SyntheticEvent<HTMLImageElement>) => {
@@ -205,6 +329,18 @@ export default function OptimizedImage({
     [onLoad, width, height]
   );
   
+  // Calculate smart default sizes for fixed dimensions if not provided
+  // This ensures a larger source set is generated for better optimization
+  const defaultSizes = useMemo(() => sizes || getDefaultSizes(fill, width), [sizes, fill, width]);
+
+  // Combine className with responsive defaults for better responsive behavior
+  // Add w-full h-auto if not already present for responsive images
+  const responsiveClasses = useMemo(() => {
+    if (!className) return "w-full h-auto";
+    if (className.includes("w-full") || className.includes("h-auto")) return className;
+    return `${className} w-full h-auto`;
+  }, [className]);
+
   // Early return after all hooks are defined
   if (!src || !assetRef) {
     console.warn("OptimizedImage: Invalid image source, missing asset ref or unable to generate URL");
@@ -217,26 +353,6 @@ export default function OptimizedImage({
   const decodingStrategy = decoding || "async";
   const fetchPriorityStrategy = fetchPriority || (priority ? "high" : "auto");
   
-  // Calculate smart default sizes for fixed dimensions if not provided
-  // This ensures a larger source set is generated for better optimization
-  const defaultSizes = useMemo(() => {
-    if (sizes) return sizes; // Use provided sizes
-    if (fill) return "100vw"; // Fill mode default
-    
-    // For fixed dimensions, calculate a responsive default based on width
-    // This assumes the image will be responsive up to its specified width
-    if (width) {
-      // If width is small, assume it's full width on mobile
-      if (width <= 768) {
-        return `(max-width: ${width}px) 100vw, ${width}px`;
-      }
-      // For larger images, assume they scale down on mobile
-      return `(max-width: 768px) 100vw, (max-width: 1200px) 50vw, ${width}px`;
-    }
-    
-    return "100vw"; // Fallback
-  }, [sizes, fill, width]);
-  
   // Dev-only warning for missing sizes in fill mode
   if (process.env.NODE_ENV !== "production" && fill && !sizes) {
     console.warn(
@@ -268,6 +384,10 @@ export default function OptimizedImage({
           fetchPriority={fetchPriorityStrategy}
           sizes={sizes || "100vw"}
           unoptimized={unoptimized}
+          loader={loader}
+          quality={quality}
+          placeholder={lqip ? "blur" : "empty"}
+          blurDataURL={lqip}
           style={imageStyle}
           onLoad={handleLoad}
           onError={onError}
@@ -282,14 +402,6 @@ export default function OptimizedImage({
     return null;
   }
 
-  // Combine className with responsive defaults for better responsive behavior
-  // Add w-full h-auto if not already present for responsive images
-  const responsiveClasses = useMemo(() => {
-    if (!className) return "w-full h-auto";
-    if (className.includes("w-full") || className.includes("h-auto")) return className;
-    return `${className} w-full h-auto`;
-  }, [className]);
-
   return (
     <div ref={containerRef} style={{ position: "relative", width, height }}>
       <Image
@@ -303,6 +415,10 @@ export default function OptimizedImage({
         fetchPriority={fetchPriorityStrategy}
         sizes={defaultSizes}
         unoptimized={unoptimized}
+        loader={loader}
+        quality={quality}
+        placeholder={lqip ? "blur" : "empty"}
+        blurDataURL={lqip}
         style={imageStyle}
         className={responsiveClasses}
         onLoad={handleLoad}
@@ -1,56 +1,48 @@
 "use client";
 
-import { useMemo, useRef, useEffect } from "react";
+import { useMemo, useRef, useEffect, useState } from "react";
 import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
-import OptimizedImage, { OptimizedImageProps } from "./OptimizedImage";
+import OptimizedImage, {
+  getOptimizedImageSource,
+  OptimizedImageProps,
+  type OptimizedImageSource,
+} from "./OptimizedImage";
+import Image from "next/image";
 import MuxPlayer from "@mux/mux-player-react";
-import { urlForImage } from "@/lib/image";
+import {
+  getImageDimensions,
+  getImagePlaceholder,
+  urlForImage,
+  type ImageDimensions,
+} from "@/lib/image";
+import type { MuxPlaybackTokens, MuxTokensResponse } from "@/lib/mux";
+import type { ImageMedia, VideoMedia } from "@/lib/queries";
+import {
+  MUX_POSTER_WIDTH,
+  muxAnimatedPreviewUrl,
+  muxStreamUrl,
+  muxThumbnailUrl,
+  parseMuxAspectRatio,
+} from "@/lib/video";
 
 /**
  * OptimizedMedia Component
  * 
  * A unified component that handles both images and videos from Sanity.
  * Uses OptimizedImage for images and Mux Player for videos.
+ * Signed Mux videos get their playback tokens from /api/mux/tokens.
+ * Videos without a poster image get one from Mux (thumbnailTime) or, for
+ * uploaded files, from their first frame.
+ * preloadMedia loads a media item ahead of being shown (MediaSlideshow's neighbouring slides).
  * 
  * Maintains the same props interface as OptimizedImage for consistency.
  */
 
-export type MediaItem = 
-  | {
-      _type?: "image";
-      asset?: {
-        _ref?: string;
-        _type?: "reference";
-        _id?: string;
-      };
-      alt?: string;
-    }
-  | {
-      _type: "video";
-      videoType?: "mux" | "file";
-      muxPlaybackId?: string;
-      videoFile?: {
-        asset?: {
-          _ref?: string;
-          _type?: "reference";
-          url?: string;
-          originalFilename?: string;
-        };
-      };
-      poster?: {
-        asset?: {
-          _ref?: string;
-          _type?: "reference";
-          _id?: string;
-        };
-        alt?: string;
-      };
-      alt?: string;
-      autoplay?: boolean;
-      loop?: boolean;
-      muted?: boolean;
-      controls?: boolean;
-    };
+/**
+ * Image or video from Sanity, as projected by the shared query fragments
+ * (project slides and homepage items have the same media fields)
+ */
+export type MediaItem = ImageMedia | VideoMedia;
 
 export interface OptimizedMediaProps extends Omit<OptimizedImageProps, "image" | "alt"> {
   /** Media item (image or video) from Sanity */
@@ -61,24 +53,37 @@ export interface OptimizedMediaProps extends Omit<OptimizedImageProps, "image" |
   
   /** Whether the media is currently in view (for video playback control) */
   isInView?: boolean;
+
+  /**
+   * Render videos as a lightweight, muted, looping preview without controls (grid cells):
+   * an animated Mux preview while in view, otherwise the poster; uploaded files play muted
+   */
+  preview?: boolean;
 }
 
 /**
  * Check if a media item is a video
- * If _type is "video", or _type is missing/null but has video fields, treat as video
  */
-function isVideo(media: MediaItem): media is Extract<MediaItem, { _type: "video" }> {
-  if (media._type === "video") return true;
-  const m = media as { _type?: string; videoType?: string; muxPlaybackId?: string; videoFile?: { asset?: unknown } };
-  if (m.videoType === "mux" && m.muxPlaybackId) return true;
-  if (m.videoType === "file" && m.videoFile?.asset) return true;
-  return false;
+function isVideo(media: MediaItem): media is VideoMedia {
+  return media._type === "video";
+}
+
+/**
+ * Intrinsic dimensions of a media item: the image's, or a video's poster's, else the aspect
+ * ratio of its uploaded Mux asset. Empty when the asset metadata wasn't queried.
+ */
+export function getMediaDimensions(media: MediaItem): ImageDimensions {
+  if (!isVideo(media)) return getImageDimensions(media);
+  const posterDimensions = getImageDimensions(media.poster);
+  if (posterDimensions.aspectRatio) return posterDimensions;
+  const aspectRatio = parseMuxAspectRatio(media.muxAspectRatio);
+  return aspectRatio ? { aspectRatio } : posterDimensions;
 }
 
 /**
  * Get video source URL
  */
-function getVideoSource(media: Extract<MediaItem, { _type: "video" }>): string | null {
+function getVideoSource(media: VideoMedia): string | null {
   if (media.videoType === "mux" && media.muxPlaybackId) {
     return media.muxPlaybackId;
   }
@@ -89,13 +94,13 @@ function getVideoSource(media: Extract<MediaItem, { _type: "video" }>): string |
     if (media.videoFile?.asset?.url) {
       return media.videoFile.asset.url;
     }
-    // If we have a _ref, we might need to construct the URL
-    if (media.videoFile?.asset?._ref) {
+    // Without a URL, construct it from the asset document ID
+    if (media.videoFile?.asset?._id) {
       // Sanity file URL format: https://cdn.sanity.io/files/{projectId}/{dataset}/{fileId}.{extension}
       const projectId = process.env.NEXT_PUBLIC_SANITY_PROJECT_ID;
       const dataset = process.env.NEXT_PUBLIC_SANITY_DATASET || "production";
-      const ref = media.videoFile.asset._ref;
-      // Extract file ID and extension from ref (format: "file-{id}-{extension}")
+      const ref = media.videoFile.asset._id;
+      // Extract file ID and extension from the asset ID (format: "file-{id}-{extension}")
       const match = ref.match(/^file-([^-]+)-([^.]+)\.(.+)$/);
       if (match && projectId) {
         const [, fileId, , extension] = match;
@@ -107,6 +112,233 @@ function getVideoSource(media: Extract<MediaItem, { _type: "video" }>): string |
   return null;
 }
 
+/**
+ * Poster URL known up front: the editor's poster image, else Mux's frame at thumbnailTime
+ * (public Mux videos; signed ones need a thumbnail token)
+ */
+function getStaticPosterUrl(media: VideoMedia): string | undefined {
+  if (media.poster?.asset) {
+    try {
+      return urlForImage(media.poster as SanityImageSource)
+        .width(MUX_POSTER_WIDTH)
+        .quality(90)
+        .url();
+    } catch {
+      return undefined;
+    }
+  }
+  if (media.videoType === "mux" && media.muxPlaybackId && media.playbackPolicy !== "signed") {
+    return muxThumbnailUrl(media.muxPlaybackId, {
+      time: media.thumbnailTime,
+      width: MUX_POSTER_WIDTH,
+    });
+  }
+  return undefined;
+}
+
+/** Token requests per playback ID, shared by every player on the page until the tokens expire */
+const muxTokenRequests = new Map<string, Promise<MuxTokensResponse>>();
+
+/** Fetch (or reuse) the tokens of a signed playback ID */
+function fetchMuxTokens(playbackId: string): Promise<MuxTokensResponse> {
+  const pending = muxTokenRequests.get(playbackId);
+  if (pending) return pending;
+
+  const request = fetch(`/api/mux/tokens?${new URLSearchParams({ playbackId })}`).then(
+    async (response) => {
+      if (!response.ok) throw new Error(`Mux tokens for ${playbackId}: ${response.status}`);
+      const body = (await response.json()) as MuxTokensResponse;
+      // Forget the tokens a minute before they expire, so later players fetch fresh ones
+      const reuseFor = body.expiresAt * 1000 - Date.now() - 60_000;
+      window.setTimeout(() => muxTokenRequests.delete(playbackId), Math.max(0, reuseFor));
+      return body;
+    }
+  );
+  request.catch(() => muxTokenRequests.delete(playbackId));
+  muxTokenRequests.set(playbackId, request);
+  return request;
+}
+
+/**
+ * Playback tokens for a signed playback ID: null while loading or without an ID,
+ * "failed" when they couldn't be fetched (e.g. signing isn't configured on the server)
+ */
+function useMuxPlaybackTokens(playbackId: string | null): MuxPlaybackTokens | "failed" | null {
+  const [loaded, setLoaded] = useState<{
+    playbackId: string;
+    tokens: MuxPlaybackTokens | "failed";
+  } | null>(null);
+
+  useEffect(() => {
+    if (!playbackId) return;
+    let cancelled = false;
+    fetchMuxTokens(playbackId)
+      .then(({ tokens }) => {
+        if (!cancelled) setLoaded({ playbackId, tokens });
+      })
+      .catch((error) => {
+        console.error("OptimizedMedia: Could not load Mux playback tokens", error);
+        if (!cancelled) setLoaded({ playbackId, tokens: "failed" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [playbackId]);
+
+  return loaded?.playbackId === playbackId ? loaded.tokens : null;
+}
+
+/** Second of a video file captured as its poster: just past the start, where the first frame is decoded */
+const FIRST_FRAME_TIME = 0.1;
+
+/**
+ * Poster captured from the first frame of a video file, for file videos without a poster image.
+ * Loads only the metadata and the data around that frame (preload="metadata", one seek).
+ * Stays undefined, keeping the placeholder, when the file can't be read back (served
+ * without CORS headers: the video fails to load or the canvas is tainted).
+ */
+function useFirstFramePoster(src: string | null): string | undefined {
+  const [captured, setCaptured] = useState<{ src: string; poster: string } | null>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "metadata";
+
+    const seek = () => {
+      video.currentTime = Math.min(FIRST_FRAME_TIME, video.duration / 2 || 0);
+    };
+    const capture = () => {
+      if (!video.videoWidth || !video.videoHeight) return;
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      try {
+        canvas.getContext("2d")?.drawImage(video, 0, 0);
+        setCaptured({ src, poster: canvas.toDataURL("image/jpeg", 0.8) });
+      } catch (error) {
+        // Tainted canvas (SecurityError): keep the placeholder until the player paints
+        if (!(error instanceof DOMException && error.name === "SecurityError")) {
+          console.error("OptimizedMedia: Could not capture the first frame", error);
+        }
+      }
+    };
+    video.addEventListener("loadedmetadata", seek, { once: true });
+    video.addEventListener("seeked", capture, { once: true });
+    video.src = src;
+
+    return () => {
+      video.removeEventListener("loadedmetadata", seek);
+      video.removeEventListener("seeked", capture);
+      video.removeAttribute("src");
+      video.load();
+    };
+  }, [src]);
+
+  return captured?.src === src ? captured.poster : undefined;
+}
+
+/** Load an image source into the cache; returns a function that stops the download */
+function preloadImageSource({ src, srcSet, sizes }: OptimizedImageSource): () => void {
+  const image = new window.Image();
+  image.decoding = "async";
+  // sizes and srcset before src, so the browser picks from the srcset like the rendered <img>
+  if (sizes) image.sizes = sizes;
+  if (srcSet) image.srcset = srcSet;
+  image.src = src;
+  // Emptying src aborts a download in progress (removing the attribute doesn't, reliably)
+  return () => {
+    image.removeAttribute("srcset");
+    image.src = "";
+  };
+}
+
+/** Load a video file's metadata (duration, dimensions); returns a function that stops loading */
+function preloadVideoMetadata(src: string): () => void {
+  const video = document.createElement("video");
+  video.preload = "metadata";
+  video.muted = true;
+  video.src = src;
+  return () => {
+    video.removeAttribute("src");
+    video.load();
+  };
+}
+
+/** Box a media item is preloaded for: the OptimizedMedia props it will be shown with */
+export type MediaPreloadOptions = Pick<
+  OptimizedMediaProps,
+  "fill" | "width" | "height" | "sizes" | "quality" | "objectFit" | "aspectRatio"
+>;
+
+/**
+ * Start loading a media item before it is shown: an image at the srcset width the browser
+ * will pick for these props; a video's poster and metadata (files: preload="metadata",
+ * Mux: the stream manifest, and the tokens of a signed video).
+ * Returns a function that cancels whatever is still loading.
+ */
+export function preloadMedia(media: MediaItem, options: MediaPreloadOptions): () => void {
+  if (!isVideo(media)) {
+    const source = getOptimizedImageSource({ image: media as SanityImageSource, ...options });
+    return source ? preloadImageSource(source) : () => {};
+  }
+
+  const cancels: (() => void)[] = [];
+  const posterUrl = getStaticPosterUrl(media);
+  if (posterUrl) cancels.push(preloadImageSource({ src: posterUrl }));
+
+  const videoSource = getVideoSource(media);
+  if (videoSource && media.videoType === "file") {
+    cancels.push(preloadVideoMetadata(videoSource));
+  } else if (videoSource) {
+    const controller = new AbortController();
+    cancels.push(() => controller.abort());
+    const fetchManifest = (token?: string) =>
+      fetch(muxStreamUrl(videoSource, { token }), { signal: controller.signal }).catch(() => {
+        // Aborted, or the player reports the error once the slide is shown
+      });
+
+    if (media.playbackPolicy === "signed") {
+      fetchMuxTokens(videoSource)
+        .then(({ tokens }) => {
+          if (controller.signal.aborted) return;
+          if (!media.poster?.asset) {
+            cancels.push(preloadImageSource({ src: muxThumbnailUrl(videoSource, { token: tokens.thumbnail }) }));
+          }
+          return fetchManifest(tokens.playback);
+        })
+        .catch(() => {
+          // The player requests the tokens again once the slide is shown
+        });
+    } else {
+      fetchManifest();
+    }
+  }
+  return () => cancels.forEach((cancel) => cancel());
+}
+
+/**
+ * Poster or animated preview of a video, filling its (positioned) container. Unoptimized:
+ * the URLs are already sized by their CDN, and the optimizer would keep only the first
+ * frame of an animated WebP.
+ */
+function VideoStill({
+  src,
+  alt,
+  style,
+  priority,
+}: {
+  src: string;
+  alt: string;
+  style?: React.CSSProperties;
+  priority?: boolean;
+}) {
+  return <Image src={src} alt={alt} fill unoptimized sizes="100vw" priority={priority} style={style} />;
+}
+
 export default function OptimizedMedia({
   media,
   alt,
@@ -120,6 +352,7 @@ export default function OptimizedMedia({
   quality,
   priority,
   isInView = true,
+  preview = false,
   ...props
 }: OptimizedMediaProps) {
   // Determine if this is a video - early check for performance
@@ -129,30 +362,47 @@ export default function OptimizedMedia({
   // Get alt text
   const altText = alt || media.alt || "";
 
-  // Get poster image URL if available (only used for videos, but must be defined before early return)
+  // Tokens for signed Mux playback (must be requested before early return)
+  const signedPlaybackId =
+    isVideoItem && media.videoType === "mux" && media.playbackPolicy === "signed"
+      ? media.muxPlaybackId ?? null
+      : null;
+  const muxTokenState = useMuxPlaybackTokens(signedPlaybackId);
+  const muxTokens = muxTokenState === "failed" ? null : muxTokenState;
+
+  // File videos without a poster image: capture their first frame
+  const firstFrameSource =
+    isVideoItem && media.videoType === "file" && !media.poster?.asset ? getVideoSource(media) : null;
+  const firstFramePoster = useFirstFramePoster(firstFrameSource);
+
+  // Poster image URL (only used for videos, but must be defined before early return):
+  // the editor's poster, else Mux's frame at thumbnailTime, else the captured first frame
   const posterUrl = useMemo(() => {
-    if (!isVideoItem) return undefined;
-    const videoMedia = media as Extract<MediaItem, { _type: "video" }>;
-    if (!videoMedia.poster?.asset) return undefined;
-    try {
-      return urlForImage(videoMedia.poster as SanityImageSource)
-        .width(1920)
-        .quality(90)
-        .url();
-    } catch {
-      return undefined;
+    if (!isVideo(media)) return undefined;
+    if (signedPlaybackId && !media.poster?.asset) {
+      return muxTokens ? muxThumbnailUrl(signedPlaybackId, { token: muxTokens.thumbnail }) : undefined;
     }
-  }, [isVideoItem, media]);
+    return getStaticPosterUrl(media) ?? firstFramePoster;
+  }, [media, signedPlaybackId, muxTokens, firstFramePoster]);
   
-  // Container styles for videos: fill mode uses 100% size; fixed mode uses width/height for same sizing as images
+  // Container styles for videos: fill mode uses 100% size; fixed mode uses width/height for same sizing as images.
+  // The poster's dominant color and blurred LQIP show until the player paints.
   const containerStyle = useMemo((): React.CSSProperties | undefined => {
-    if (!isVideoItem) return undefined;
+    if (!isVideo(media)) return undefined;
+    const { lqip, backgroundColor } = getImagePlaceholder(media.poster);
+    const placeholderStyle: React.CSSProperties = {
+      backgroundColor,
+      backgroundImage: lqip ? `url("${lqip}")` : undefined,
+      backgroundSize: "cover",
+      backgroundPosition: "center",
+    };
     if (fill) {
       return {
         position: "relative",
         width: "100%",
         height: "100%",
         overflow: "hidden",
+        ...placeholderStyle,
       };
     }
     if (width != null && height != null) {
@@ -162,10 +412,11 @@ export default function OptimizedMedia({
         height,
         maxWidth: "100%",
         overflow: "hidden",
+        ...placeholderStyle,
       };
     }
     return undefined;
-  }, [isVideoItem, fill, width, height]);
+  }, [media, fill, width, height]);
   
   // Video player styles (only used for videos, but must be defined before early return)
   const playerStyle = useMemo(() => {
@@ -193,19 +444,19 @@ export default function OptimizedMedia({
   
   // Determine all video control settings with proper defaults
   // Only use defaults if the value is undefined (not explicitly set in Sanity)
-  const showControls = isVideoItem ? (media.controls !== undefined ? media.controls : true) : true;
-  const shouldAutoplay = isVideoItem ? (media.autoplay !== undefined ? media.autoplay : false) : false;
-  const shouldLoop = isVideoItem ? (media.loop !== undefined ? media.loop : false) : false;
-  const shouldMute = isVideoItem ? (media.muted !== undefined ? media.muted : true) : true;
+  // Previews always play muted and looping, without controls
+  const showControls = isVideoItem ? !preview && (media.controls ?? true) : true;
+  const shouldAutoplay = isVideoItem ? preview || (media.autoplay ?? false) : false;
+  const shouldLoop = isVideoItem ? preview || (media.loop ?? false) : false;
+  const shouldMute = isVideoItem ? preview || (media.muted ?? true) : true;
   
   // Only autoplay if in view
   const effectiveAutoplay = shouldAutoplay && isInView;
   
   // Control video playback based on isInView (only runs for videos)
   useEffect(() => {
-    if (!isVideoItem) return;
-    const videoMedia = media as Extract<MediaItem, { _type: "video" }>;
-    const videoType = videoMedia.videoType;
+    if (!isVideo(media)) return;
+    const videoType = media.videoType;
     
     if (isInView) {
       // Video is in view - play it
@@ -243,7 +494,7 @@ export default function OptimizedMedia({
         video.currentTime = 0;
       }
     }
-  }, [isVideoItem, isInView, media]);
+  }, [isInView, media]);
   
   // Merge player style with controls CSS variable
   const finalPlayerStyle = useMemo(() => {
@@ -287,8 +538,7 @@ export default function OptimizedMedia({
   }
   
   // It's a video - process video-specific logic
-  const videoMedia = media as Extract<MediaItem, { _type: "video" }>;
-  const videoSource = getVideoSource(videoMedia);
+  const videoSource = getVideoSource(media);
   
   if (!videoSource) {
     console.warn("OptimizedMedia: Invalid video source, missing playback ID or file URL");
@@ -308,13 +558,40 @@ export default function OptimizedMedia({
     controls: showControls,
   };
   
-  // Render video with Mux Player
-  if (videoMedia.videoType === "mux") {
+  // Mux preview: the animated preview while in view, the poster otherwise (signed videos: poster only)
+  if (media.videoType === "mux" && preview) {
+    const previewUrl =
+      isInView && !signedPlaybackId
+        ? muxAnimatedPreviewUrl(videoSource, {
+            start: media.thumbnailTime,
+            duration: media.muxDuration,
+          })
+        : posterUrl;
+    return (
+      <div style={{ position: "relative", ...containerStyle }} className={className}>
+        {previewUrl && <VideoStill src={previewUrl} alt={altText} style={playerStyle} />}
+      </div>
+    );
+  }
+
+  // Render video with Mux Player; a signed video shows its placeholder until the tokens arrive,
+  // and only its poster image (if it has one) when they can't be had
+  if (media.videoType === "mux") {
+    if (signedPlaybackId && !muxTokens) {
+      return (
+        <div style={{ position: "relative", ...containerStyle }} className={className}>
+          {muxTokenState === "failed" && posterUrl && (
+            <VideoStill src={posterUrl} alt={altText} style={playerStyle} priority={priority} />
+          )}
+        </div>
+      );
+    }
     return (
       <div style={containerStyle} className={className}>
         <MuxPlayer
           ref={muxPlayerRef}
           playbackId={videoSource}
+          tokens={muxTokens ?? undefined}
           streamType="on-demand"
           metadata={{
             video_title: altText || "Video",
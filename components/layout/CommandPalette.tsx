@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useRouter } from "next/navigation";
+import {
+  MAX_QUERY_LENGTH,
+  toSearchTerms,
+  type SearchGroup,
+  type SearchResponse,
+} from "@/lib/search";
+
+/** Wait after the last keystroke before searching, in ms */
+const SEARCH_DEBOUNCE_MS = 150;
+
+/** Whether a key event comes from a text field, where "/" is typed rather than a shortcut */
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/** URL of the full results page for a query */
+function searchPageHref(query: string): string {
+  return `/search?${new URLSearchParams({ q: query })}`;
+}
+
+/**
+ * Command palette: ⌘K / Ctrl+K (or "/" outside text fields) opens a search box over the page.
+ * Searches /api/search while typing; arrow keys move through the grouped results and Enter
+ * opens one (projects open in the projects grid overlay); "All results" opens the /search page.
+ */
+export default function CommandPalette() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [activeIndex, setActiveIndex] = useState(-1);
+  /** Element focused before opening, focused again on close */
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const hits = useMemo(() => groups.flatMap((group) => group.hits), [groups]);
+  const hasTerms = toSearchTerms(query).length > 0;
+
+  const close = useCallback(() => {
+    setOpen(false);
+    setQuery("");
+    setGroups([]);
+    setActiveIndex(-1);
+    returnFocusRef.current?.focus();
+  }, []);
+
+  const navigate = useCallback(
+    (href: string) => {
+      close();
+      router.push(href);
+    },
+    [close, router]
+  );
+
+  // Shortcuts work anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isToggle = (e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k";
+      const isSlash = e.key === "/" && !e.metaKey && !e.ctrlKey && !e.altKey && !isTypingTarget(e.target);
+      if (!isToggle && !isSlash) return;
+      e.preventDefault();
+      if (!open) {
+        returnFocusRef.current = document.activeElement as HTMLElement | null;
+        setOpen(true);
+      } else if (isToggle) {
+        close();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, close]);
+
+  // Debounced search; a newer query aborts the pending request
+  useEffect(() => {
+    if (!open || !hasTerms) {
+      setGroups([]);
+      setStatus("idle");
+      return;
+    }
+    const controller = new AbortController();
+    setStatus("loading");
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?${new URLSearchParams({ q: query })}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`Search failed: ${response.status}`);
+        const body = (await response.json()) as SearchResponse;
+        setGroups(body.groups);
+        setActiveIndex(body.groups.length > 0 ? 0 : -1);
+        setStatus("idle");
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(error);
+        setStatus("error");
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, query, hasTerms]);
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    } else if (e.key === "ArrowDown" && hits.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % hits.length);
+    } else if (e.key === "ArrowUp" && hits.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? hits.length - 1 : index - 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const hit = hits[activeIndex];
+      if (hit) navigate(hit.href);
+      else if (hasTerms) navigate(searchPageHref(query));
+    }
+  };
+
+  if (!open) return null;
+
+  const activeHit = hits[activeIndex];
+
+  // Portalled to <body>: Nav sits in fixed, low z-index containers
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex justify-center bg-[var(--page-bg)] pt-[20vh]" onClick={close}>
+      <div
+        className="flex h-fit w-full max-w-[600px] flex-col gap-[20px] px-[20px]"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleInputKeyDown}
+          maxLength={MAX_QUERY_LENGTH}
+          placeholder="Search projects, posts and pages"
+          autoFocus
+          role="combobox"
+          aria-expanded={hits.length > 0}
+          aria-controls="command-palette-results"
+          aria-activedescendant={activeHit ? `command-palette-${activeHit.id}` : undefined}
+          className="bodycopy w-full border-b border-current bg-transparent pb-[5px] outline-none"
+        />
+
+        <div id="command-palette-results" role="listbox" aria-label="Search results" className="flex flex-col gap-[20px]">
+          {groups.map((group) => (
+            <div key={group.type} role="group" aria-label={group.title} className="flex flex-col">
+              <span className="bodycopy !text-[var(--identity-color)]">{group.title}</span>
+              {group.hits.map((hit) => {
+                const isActive = hit === activeHit;
+                return (
+                  <div
+                    key={hit.id}
+                    id={`command-palette-${hit.id}`}
+                    role="option"
+                    aria-selected={isActive}
+                    onMouseEnter={() => setActiveIndex(hits.indexOf(hit))}
+                    onClick={() => navigate(hit.href)}
+                    className={`bodycopy cursor-pointer ${isActive ? "underline" : ""}`}
+                  >
+                    {hit.title}
+                    {hit.excerpt && <span className="opacity-50"> — {hit.excerpt}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {hasTerms && (
+          <p className="bodycopy flex gap-[10px]" aria-live="polite">
+            <span className="opacity-50">
+              {status === "loading"
+                ? "Searching…"
+                : status === "error"
+                  ? "Search failed."
+                  : hits.length === 0
+                    ? "Nothing found."
+                    : `${hits.length} result${hits.length === 1 ? "" : "s"}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => navigate(searchPageHref(query))}
+              className="bodycopy text-inherit no-underline hover:underline"
+            >
+              All results
+            </button>
+          </p>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import Nav from "@/components/layout/Nav";
 import type { HomepageSlideshowItem } from "@/lib/queries";
 import MediaSlideshow, {
@@ -30,22 +30,26 @@ export default function HomePageContent({ items }: HomePageContentProps) {
     setDirectionChangeKey((k) => k + 1);
   };
 
-  const slideshowItems: MediaSlideshowItem[] = items.map((item) => {
-    const hasVideo =
-      item.video &&
-      (item.video.videoType === "mux"
-        ? item.video.muxPlaybackId
-        : item.video.videoType === "file"
-          ? item.video.videoFile?.asset
-          : false);
-    const media: MediaSlideshowItem["media"] = hasVideo
-      ? { ...item.video, _type: "video" as const }
-      : item.image ?? null;
-    return {
-      media,
-      alt: item.video?.alt ?? item.image?.alt ?? item.title ?? "",
-    };
-  });
+  // Stable across slide changes, so MediaSlideshow's preloads keep running
+  const slideshowItems = useMemo<MediaSlideshowItem[]>(
+    () =>
+      items.map((item) => {
+        const { video, image } = item;
+        const hasVideo =
+          video != null &&
+          (video.videoType === "mux"
+            ? !!video.muxPlaybackId
+            : video.videoType === "file"
+              ? !!video.videoFile?.asset
+              : false);
+        const media: MediaSlideshowItem["media"] = hasVideo ? video : image;
+        return {
+          media,
+          alt: item.video?.alt ?? item.image?.alt ?? item.title ?? "",
+        };
+      }),
+    [items]
+  );
 
   return (
     <>
@@ -0,0 +1,130 @@
+import PortableText from "@/components/sanity/PortableText";
+import type { CvEntry, Information } from "@/lib/queries";
+
+type InformationContentProps = {
+  information: Information;
+};
+
+const linkClass = "text-inherit no-underline hover:underline";
+
+/** Group CV entries by year, newest year first; entries keep their Studio order within a year */
+function groupEntriesByYear(entries: CvEntry[]): Array<{ year: number | null; entries: CvEntry[] }> {
+  const groups = new Map<number | null, CvEntry[]>();
+  for (const entry of entries) {
+    const year = entry.year ?? null;
+    groups.set(year, [...(groups.get(year) ?? []), entry]);
+  }
+  return Array.from(groups, ([year, grouped]) => ({ year, entries: grouped })).sort(
+    (a, b) => (b.year ?? -Infinity) - (a.year ?? -Infinity)
+  );
+}
+
+function SectionHeading({ children }: { children: React.ReactNode }) {
+  return (
+    <h2 className="bodycopy m-0 block w-full text-left !text-[var(--identity-color)]">
+      {children}
+    </h2>
+  );
+}
+
+/**
+ * Information page body: bio, contact, representation and CV sections.
+ * Uses the same bodycopy type as the Nav; every section is optional.
+ */
+export default function InformationContent({ information }: InformationContentProps) {
+  const { bio, contact, representation, cvSections } = information;
+  const socialLinks = contact?.socialLinks?.filter((link) => link.url) ?? [];
+  const hasContact = !!(contact?.email || contact?.phone || socialLinks.length > 0);
+
+  return (
+    <div className="flex max-w-[800px] flex-col gap-[40px] text-left">
+      {bio && bio.length > 0 && (
+        <section className="flex flex-col gap-[1.2em]">
+          <PortableText content={bio} />
+        </section>
+      )}
+
+      {hasContact && (
+        <section>
+          <SectionHeading>Contact</SectionHeading>
+          {contact?.email && (
+            <a href={`mailto:${contact.email}`} className={`bodycopy block ${linkClass}`}>
+              {contact.email}
+            </a>
+          )}
+          {contact?.phone && (
+            <a href={`tel:${contact.phone.replace(/\s+/g, "")}`} className={`bodycopy block ${linkClass}`}>
+              {contact.phone}
+            </a>
+          )}
+          {socialLinks.map((link) => (
+            <a
+              key={link._key}
+              href={link.url ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`bodycopy block ${linkClass}`}
+            >
+              {link.label || link.url}
+            </a>
+          ))}
+        </section>
+      )}
+
+      {representation && representation.length > 0 && (
+        <section>
+          <SectionHeading>Representation</SectionHeading>
+          {representation.map((rep) => {
+            const label = [rep.name, rep.location].filter(Boolean).join(", ");
+            return rep.url ? (
+              <a
+                key={rep._key}
+                href={rep.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`bodycopy block ${linkClass}`}
+              >
+                {label}
+              </a>
+            ) : (
+              <p key={rep._key} className="bodycopy m-0">
+                {label}
+              </p>
+            );
+          })}
+        </section>
+      )}
+
+      {cvSections
+        ?.filter((section) => section.entries && section.entries.length > 0)
+        .map((section) => (
+          <section key={section._key}>
+            <SectionHeading>{section.title}</SectionHeading>
+            <div className="flex flex-col gap-[0.6em]">
+              {groupEntriesByYear(section.entries ?? []).map(({ year, entries }) => (
+                <div key={year ?? "undated"} className="grid grid-cols-[60px_1fr] gap-0">
+                  <span className="bodycopy">{year ?? "—"}</span>
+                  <ul className="m-0 list-none p-0">
+                    {entries.map((entry) => {
+                      const text = [entry.title, entry.details].filter(Boolean).join(", ");
+                      return (
+                        <li key={entry._key} className="bodycopy">
+                          {entry.url ? (
+                            <a href={entry.url} target="_blank" rel="noopener noreferrer" className={linkClass}>
+                              {text}
+                            </a>
+                          ) : (
+                            text
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </section>
+        ))}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
 import Link from "next/link";
+import { usePathname } from "next/navigation";
+import CommandPalette from "@/components/layout/CommandPalette";
+import { useNavigation } from "@/components/layout/NavigationProvider";
 
 // -----------------------------------------------------------------------------
 // Types
@@ -13,14 +16,24 @@ type NavProps = {
   currentSlideIndex?: number;
   /** Total number of slides for counter */
   totalSlides?: number;
-  /** When "hover", default shows name + slide info; hover shows name + Projects + Information. When "projects"/"information", default shows that label + close icon (link to home). */
-  variant?: "default" | "hover" | "projects" | "information";
+  /** When "hover", default shows name + slide info; hover shows name + nav items. When "detail", default shows the active section label + close icon (link to home); hover shows the other nav items. */
+  variant?: "default" | "hover" | "detail";
+  /** Section label for the "detail" variant when no nav item matches the current path (e.g. a CMS page title) */
+  label?: string;
   /** Last navigation direction for the slideshow (shows arrow flash in default/non-hover view) */
   lastDirection?: "left" | "right" | null;
   /** Increments when direction changes so the flash animation re-runs */
   directionChangeKey?: number;
 };
 
+/** Whether a nav href is the current page or one of its sub-pages (external links never are) */
+function isActiveHref(href: string, pathname: string): boolean {
+  if (!href.startsWith("/")) return false;
+  const path = href.replace(/\/+$/, "") || "/";
+  if (path === "/") return pathname === "/";
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
 // -----------------------------------------------------------------------------
 // Shared assets
 // -----------------------------------------------------------------------------
@@ -50,11 +63,12 @@ function CloseIcon({ className }: { className?: string }) {
 
 // -----------------------------------------------------------------------------
 // Nav component
+// Identity name and items come from Global Settings → Navigation (see NavigationProvider).
+// Every variant carries the search command palette (⌘K or "/").
 // Variants by page:
-//   • "hover"     → Homepage, and Projects page when overlay is open (slide title + counter; hover shows Projects + Information + direction arrows)
-//   • "projects" → Projects page when overlay is closed (Projects + close; hover shows Information)
-//   • "information" → Information page (Information + close; hover shows Projects)
-//   • "default"  → Fallback (name + slide title + counter, no hover swap)
+//   • "hover"  → Homepage, project pages, and Projects page when overlay is open (slide title + counter; hover shows all nav items + direction arrows)
+//   • "detail" → Projects (overlay closed), Information, Posts and CMS pages (active section + close; hover shows the other nav items)
+//   • "default" → Fallback (name + slide title + counter, no hover swap)
 // -----------------------------------------------------------------------------
 
 export default function Nav({
@@ -62,17 +76,20 @@ export default function Nav({
   currentSlideIndex = 0,
   totalSlides = 0,
   variant = "default",
+  label,
   lastDirection = null,
   directionChangeKey = 0,
 }: NavProps) {
+  const { identity, items } = useNavigation();
+  const pathname = usePathname() ?? "/";
   const isHoverVariant = variant === "hover";
-  const isProjectsVariant = variant === "projects";
-  const isInformationVariant = variant === "information";
-  const isDetailVariant = isProjectsVariant || isInformationVariant;
+  const isDetailVariant = variant === "detail";
+  const activeItem = items.find((item) => isActiveHref(item.href, pathname));
+  const otherItems = items.filter((item) => item !== activeItem);
 
   return (
     <nav className="group relative w-fit border-b-0 border-white p-0 pb-[5px]">
-      {/* Direction arrows: shown only for "hover" variant (Homepage / Projects overlay); hidden on Projects and Information pages */}
+      {/* Direction arrows: shown only for "hover" variant (Homepage / Projects overlay); hidden on detail pages */}
       {!isDetailVariant && (
         <div
           className={`absolute left-0 top-0 z-20 flex gap-[5px] pl-[100px] bodycopy ${isHoverVariant ? "opacity-100 group-hover:opacity-0 group-hover:transition-opacity group-hover:duration-150" : ""}`}
@@ -94,54 +111,42 @@ export default function Nav({
       )}
 
       <div className="relative z-10">
-        {isProjectsVariant ? (
+        {isDetailVariant ? (
           <>
-            {/* ---------- Projects page (overlay closed) ---------- */}
+            {/* ---------- Projects page (overlay closed), Information, Posts and CMS pages ---------- */}
             <span className="bodycopy block w-full pl-[0px] pr-[40px] text-left align-top !text-[var(--identity-color)]">
-              Michael Wolever
+              {identity}
             </span>
             <Link
               href="/"
               className="bodycopy flex w-full items-center gap-1.5 text-left text-inherit no-underline hover:underline"
             >
-              <span>Projects</span>
+              <span>{activeItem?.label ?? label}</span>
               <CloseIcon className="h-[1em] w-[1em] shrink-0" />
             </Link>
-            <span className="bodycopy block h-[1.1em] w-full group-hover:hidden" aria-hidden />
-            <Link
-              href="/information"
-              className="bodycopy hidden w-full text-left text-inherit no-underline hover:underline group-hover:block"
-            >
-              Information
-            </Link>
-          </>
-        ) : isInformationVariant ? (
-          <>
-            {/* ---------- Information page ---------- */}
-            <span className="bodycopy block w-full pl-[0px] pr-[40px] text-left align-top !text-[var(--identity-color)]">
-              Michael Wolever
-            </span>
-            <Link
-              href="/"
-              className="bodycopy flex w-full items-center gap-1.5 text-left text-inherit no-underline hover:underline"
-            >
-              <span>Information</span>
-              <CloseIcon className="h-[1em] w-[1em] shrink-0" />
-            </Link>
-            <span className="bodycopy block h-[1.1em] w-full group-hover:hidden" aria-hidden />
-            <Link
-              href="/projects"
-              className="bodycopy hidden w-full text-left text-inherit no-underline hover:underline group-hover:block"
-            >
-              Projects
-            </Link>
+            {otherItems.map((item) => (
+              <span
+                key={`spacer-${item.href}`}
+                className="bodycopy block h-[1.1em] w-full group-hover:hidden"
+                aria-hidden
+              />
+            ))}
+            {otherItems.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className="bodycopy hidden w-full text-left text-inherit no-underline hover:underline group-hover:block"
+              >
+                {item.label}
+              </Link>
+            ))}
           </>
         ) : isHoverVariant ? (
           <>
             {/* ---------- Homepage & Projects page (overlay open) ---------- */}
             <div className="group-hover:hidden">
               <span className="bodycopy block w-full pl-[0px] pr-[40px] text-left align-top !text-[var(--identity-color)]">
-                Michael Wolever
+                {identity}
               </span>
               {currentSlideTitle != null && currentSlideTitle !== "" && (
                 <p className="bodycopy block w-full text-left">
@@ -156,27 +161,25 @@ export default function Nav({
             </div>
             <div className="hidden group-hover:block">
               <span className="bodycopy block w-full pl-[0px] pr-[40px] text-left align-top !text-[var(--identity-color)]">
-                Michael Wolever
+                {identity}
               </span>
-              <Link
-                href="/projects"
-                className="bodycopy block w-full text-left text-inherit no-underline hover:underline"
-              >
-                Projects
-              </Link>
-              <Link
-                href="/information"
-                className="bodycopy block w-full text-left text-inherit no-underline hover:underline"
-              >
-                Information
-              </Link>
+              {items.map((item) => (
+                <Link
+                  key={item.href}
+                  href={item.href}
+                  aria-current={item === activeItem ? "page" : undefined}
+                  className="bodycopy block w-full text-left text-inherit no-underline hover:underline"
+                >
+                  {item.label}
+                </Link>
+              ))}
             </div>
           </>
         ) : (
           <>
             {/* ---------- Default (fallback) ---------- */}
             <span className="bodycopy block w-full pl-[0px] text-left align-top !text-[var(--identity-color)]">
-              Michael Wolever
+              {identity}
             </span>
             {currentSlideTitle != null && currentSlideTitle !== "" && (
               <p className="bodycopy block w-full text-left">
@@ -191,6 +194,7 @@ export default function Nav({
           </>
         )}
       </div>
+      <CommandPalette />
     </nav>
   );
 }
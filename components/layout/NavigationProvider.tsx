@@ -0,0 +1,24 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DEFAULT_NAVIGATION, type SiteNavigation } from "@/lib/navigation";
+
+const NavigationContext = createContext<SiteNavigation>(DEFAULT_NAVIGATION);
+
+/**
+ * Provides the CMS navigation to every Nav in the site layout,
+ * so pages don't have to fetch and pass it down themselves.
+ */
+export default function NavigationProvider({
+  navigation,
+  children,
+}: {
+  navigation: SiteNavigation;
+  children: React.ReactNode;
+}) {
+  return <NavigationContext.Provider value={navigation}>{children}</NavigationContext.Provider>;
+}
+
+export function useNavigation(): SiteNavigation {
+  return useContext(NavigationContext);
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+
+/** How often drafts are re-fetched while previewing, in ms */
+const REFRESH_INTERVAL = 5000;
+
+/**
+ * Preview Banner
+ *
+ * Shown in draft mode. Keeps the preview live by refreshing server components
+ * while the tab is visible, and links out of draft mode back to the current page.
+ */
+export default function PreviewBanner() {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      if (document.visibilityState === "visible") router.refresh();
+    }, REFRESH_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [router]);
+
+  return (
+    <div className="bodycopy fixed bottom-[20px] right-[20px] z-50 flex gap-[10px] bg-white px-[10px] py-[5px]">
+      <span>Preview mode</span>
+      <a
+        href={`/api/draft/disable?redirect=${encodeURIComponent(pathname)}`}
+        className="underline hover:opacity-70"
+      >
+        Exit
+      </a>
+    </div>
+  );
+}
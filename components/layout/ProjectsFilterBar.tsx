@@ -0,0 +1,87 @@
+"use client";
+
+import {
+  NO_PROJECT_FILTER,
+  type ProjectFilter,
+  type ProjectFilterOptions,
+} from "@/lib/projects";
+
+type ProjectsFilterBarProps = {
+  options: ProjectFilterOptions;
+  filter: ProjectFilter;
+  /** Omitted for the static Suspense fallback, which renders the bar without filtering */
+  onChange?: (filter: ProjectFilter) => void;
+};
+
+type FilterButtonProps = {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+};
+
+function FilterButton({ active, onClick, children }: FilterButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`bodycopy text-left text-inherit ${active ? "underline" : "no-underline hover:underline"}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Projects filter bar: one row per tag category plus a row of years.
+ * Choosing a tag or year narrows the grid; choosing it again (or "All") clears it.
+ */
+export default function ProjectsFilterBar({ options, filter, onChange }: ProjectsFilterBarProps) {
+  const { tagGroups, years } = options;
+  if (tagGroups.length === 0 && years.length === 0) return null;
+
+  const isEmpty = filter.tag == null && filter.year == null;
+
+  return (
+    <div className="flex flex-col gap-0" role="group" aria-label="Filter projects">
+      <FilterButton active={isEmpty} onClick={() => onChange?.(NO_PROJECT_FILTER)}>
+        All
+      </FilterButton>
+      {tagGroups.map((group) => (
+        <div key={group.title} className="flex flex-wrap gap-x-[10px]">
+          <span className="bodycopy opacity-50">{group.title}</span>
+          {group.tags.map((tag) => {
+            const slug = tag.slug?.current ?? null;
+            const active = slug != null && filter.tag === slug;
+            return (
+              <FilterButton
+                key={tag._id}
+                active={active}
+                onClick={() => onChange?.({ ...filter, tag: active ? null : slug })}
+              >
+                {tag.title}
+              </FilterButton>
+            );
+          })}
+        </div>
+      ))}
+      {years.length > 0 && (
+        <div className="flex flex-wrap gap-x-[10px]">
+          <span className="bodycopy opacity-50">Year</span>
+          {years.map((year) => {
+            const active = filter.year === year;
+            return (
+              <FilterButton
+                key={year}
+                active={active}
+                onClick={() => onChange?.({ ...filter, year: active ? null : year })}
+              >
+                {year}
+              </FilterButton>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,46 +2,20 @@
 
 import { useCallback, useMemo, useState } from "react";
 import PortableText from "@/components/sanity/PortableText";
-import OptimizedMedia, { type MediaItem } from "@/components/images/OptimizedMedia";
-import MediaSlideshow, {
-  type MediaSlideshowItem,
-} from "@/components/slideshow/MediaSlideshow";
-import type { Project } from "@/lib/queries";
-import type { PortableTextBlock } from "@portabletext/types";
-
-/** Normalize a project slideshow item (image or video) to OptimizedMedia's MediaItem, or null */
-function toMediaItem(
-  item: NonNullable<Project["slideshowImages"]>[number] | null
-): MediaItem | null {
-  if (!item) return null;
-  if (item.asset) return item as MediaItem;
-  const v = item as { _type?: string; videoType?: string; videoFile?: { asset?: unknown } };
-  if (v.videoType === "mux" && (v as { muxPlaybackId?: string }).muxPlaybackId)
-    return { ...item, _type: "video" as const };
-  if (v.videoType === "file" && v.videoFile?.asset)
-    return { ...item, _type: "video" as const };
-  return null;
-}
-
-/** Plain text from project title (blocks or legacy string) for alt text etc. */
-function projectTitleToPlainText(title: Project["title"]): string {
-  if (typeof title === "string") return title;
-  if (!Array.isArray(title)) return "";
-  return title
-    .map(
-      (block: PortableTextBlock) =>
-        (block as { children?: Array<{ _type?: string; text?: string }> })?.children
-          ?.filter((c) => c._type === "span")
-          .map((s) => s.text ?? "")
-          .join("") ?? ""
-    )
-    .join("\n")
-    .trim();
-}
+import OptimizedMedia from "@/components/images/OptimizedMedia";
+import MediaSlideshow from "@/components/slideshow/MediaSlideshow";
+import type { Project, ProjectSlide } from "@/lib/queries";
+import {
+  projectMatchesFilter,
+  projectTitleToPlainText,
+  projectToMediaSlideshowItems,
+  toMediaItem,
+  type ProjectFilter,
+} from "@/lib/projects";
 
 type ProjectImage = {
   project: Project;
-  image: NonNullable<Project["slideshowImages"]>[number];
+  image: ProjectSlide;
   imageIndex: number;
   totalImages: number;
 };
@@ -55,6 +29,8 @@ export type ProjectsGridOverlay = {
 
 type ProjectsGridProps = {
   projects: Project[];
+  /** Cells of projects that don't match are dimmed like those outside an open overlay */
+  filter?: ProjectFilter;
   overlay?: ProjectsGridOverlay;
   overlaySlideIndex?: number;
   onOpenOverlay?: (
@@ -89,18 +65,9 @@ function getInitialVisibleIndices(items: ProjectImage[]): Set<number> {
   return set;
 }
 
-/** Map a project's slideshow (images + videos) to MediaSlideshowItem[] for overlay */
-function projectToMediaSlideshowItems(project: Project | null): MediaSlideshowItem[] {
-  if (!project) return [];
-  const titlePlain = projectTitleToPlainText(project.title);
-  return (project.slideshowImages ?? []).map((img) => ({
-    media: toMediaItem(img),
-    alt: (img as { alt?: string }).alt ?? titlePlain ?? "",
-  }));
-}
-
 export default function ProjectsGrid({
   projects,
+  filter,
   overlay: controlledOverlay,
   overlaySlideIndex: controlledSlideIndex = 0,
   onOpenOverlay,
@@ -134,14 +101,13 @@ export default function ProjectsGrid({
     (projectId: string, startIndex: number, project?: Project, totalImages?: number) => {
       const title = project ? projectTitleToPlainText(project.title) || "Untitled" : "Untitled";
       const total = totalImages ?? 0;
-      if (onOpenOverlay) {
-        onOpenOverlay(projectId, startIndex, title, total);
-      } else {
+      onOpenOverlay?.(projectId, startIndex, title, total);
+      if (!isControlled) {
         setInternalOverlay({ projectId, startIndex });
         setInternalSlideIndex(startIndex);
       }
     },
-    [onOpenOverlay]
+    [onOpenOverlay, isControlled]
   );
   const closeOverlay = useCallback(() => {
     onCloseOverlay?.();
@@ -166,7 +132,11 @@ export default function ProjectsGrid({
 
   const overlayProject =
     overlay != null ? projects.find((p) => p._id === overlay.projectId) : null;
-  const overlayMediaItems = projectToMediaSlideshowItems(overlayProject);
+  // Stable across slide changes, so MediaSlideshow's preloads keep running
+  const overlayMediaItems = useMemo(
+    () => projectToMediaSlideshowItems(overlayProject),
+    [overlayProject]
+  );
 
   return (
     <>
@@ -181,12 +151,14 @@ export default function ProjectsGrid({
         const cellIndex = index;
 
         const isOverlayProject = overlay?.projectId === project._id;
-        const cellOpacity = overlay == null ? 1 : isOverlayProject ? 1 : 0.05;
-        const cellGrayscale = overlay != null && !isOverlayProject;
+        const isFilteredOut = filter != null && !projectMatchesFilter(project, filter);
+        const isDimmed = overlay == null ? isFilteredOut : !isOverlayProject;
+        const cellOpacity = isDimmed ? 0.05 : 1;
+        const cellGrayscale = isDimmed;
 
         return (
           <div
-            key={`${project._id}-${index}-${image?.asset?._ref ?? (image as { muxPlaybackId?: string })?.muxPlaybackId ?? "v"}`}
+            key={`${project._id}-${image._key}`}
             className={`relative aspect-[4/5] w-full overflow-hidden transition-[opacity,filter] duration-200 ${cellGrayscale ? "grayscale" : ""}`}
             style={{ opacity: cellOpacity }}
             onMouseEnter={() => toggleCell(index)}
@@ -231,29 +203,27 @@ export default function ProjectsGrid({
                 {imageIndex + 1}/{totalImages}
               </span>
             </div>
-            {/* Media: full width of cell, auto height (top-aligned; cell overflow clips if taller) */}
+            {/* Media: fills the 4:5 cell, cropped around the editor's hotspot; videos as muted previews */}
             {media && (
               <div
-                className={`absolute left-0 right-0 top-0 w-full transition-opacity duration-150 ${
+                className={`absolute inset-0 transition-opacity duration-150 ${
                   showImage ? "opacity-100 z-10" : "opacity-0 z-0"
                 }`}
               >
-                <div className="relative w-full [&>div]:!h-auto [&>div]:!max-w-full [&>div]:!w-full">
-                  <OptimizedMedia
-                    media={media}
-                    alt={
-                      (image as { alt?: string }).alt ??
-                      projectTitleToPlainText(project.title) ??
-                      "Project media"
-                    }
-                    fill={false}
-                    width={800}
-                    height={600}
-                    sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 25vw, 20vw"
-                    className="object-top w-full h-auto"
-                    isInView={showImage}
-                  />
-                </div>
+                <OptimizedMedia
+                  media={media}
+                  alt={
+                    image.alt ??
+                    projectTitleToPlainText(project.title) ??
+                    "Project media"
+                  }
+                  fill
+                  aspectRatio={4 / 5}
+                  objectFit="cover"
+                  sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 25vw, 20vw"
+                  isInView={showImage}
+                  preview
+                />
               </div>
             )}
             </div>
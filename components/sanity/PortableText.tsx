@@ -1,11 +1,12 @@
 import { PortableText as PortableTextComponent } from "@portabletext/react";
-import type { PortableTextBlock } from "@portabletext/types";
+import type { TypedObject } from "@portabletext/types";
 import Image from "next/image";
 import { urlForImage } from "@/lib/image";
 import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
 
 interface PortableTextProps {
-  content: PortableTextBlock[] | null | undefined;
+  /** Blocks (and inline objects such as images) as returned by the query layer */
+  content: TypedObject[] | null | undefined;
 }
 
 /**
@@ -92,12 +93,12 @@ export default function PortableText({ content }: PortableTextProps) {
         },
         // Customize image rendering
         types: {
-          image: ({ value }: { value: any }) => {
+          image: ({ value }: { value: { asset?: unknown; alt?: string } | null }) => {
             // Type guard to ensure value is an object with asset property
             if (!value || typeof value !== "object" || !value.asset) return null;
 
             try {
-              const imageUrl = urlForImage(value)
+              const imageUrl = urlForImage(value as SanityImageSource)
                 .width(1200)
                 .height(800)
                 .fit("max")
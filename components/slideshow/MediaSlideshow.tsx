@@ -1,9 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import OptimizedMedia, {
+  getMediaDimensions,
   MediaItem,
   OptimizedMediaProps,
+  preloadMedia,
 } from "@/components/images/OptimizedMedia";
 
 export type MediaSlideshowItem = {
@@ -26,12 +28,17 @@ export type MediaSlideshowProps = {
   maxHeightClassName?: string;
   /** Optional: call stopPropagation on prev/next click (e.g. when inside an overlay) */
   stopPropagationOnClick?: boolean;
-  /** Optional fixed width passed to OptimizedMedia (e.g. 800) */
+  /** Optional width of the box slides are fitted into (default 800) */
   width?: number;
-  /** Optional fixed height passed to OptimizedMedia */
+  /** Optional height of the box slides are fitted into (default 3/4 of the width) */
   height?: number;
   /** Additional props forwarded to OptimizedMedia */
   mediaProps?: Omit<OptimizedMediaProps, "media" | "alt" | "width" | "height">;
+  /**
+   * Optional number of slides before and after the current one to preload (default 1, 0 disables).
+   * Nothing is preloaded when the visitor has Save-Data on.
+   */
+  preloadCount?: number;
 };
 
 const defaultMaxHeight = "max-h-[600px]";
@@ -41,6 +48,89 @@ const buttonBaseClass =
 const prevButtonClass = `${buttonBaseClass} left-0`;
 const nextButtonClass = `${buttonBaseClass} right-0`;
 
+/**
+ * Size of a slide in the box: its true aspect ratio (image or poster metadata) fitted into it.
+ * Slides without metadata fill the box.
+ */
+function fitSlide(media: MediaItem, boxWidth: number, boxHeight: number) {
+  const { aspectRatio } = getMediaDimensions(media);
+  if (!aspectRatio) return { aspectRatio, width: boxWidth, height: boxHeight };
+  const width = Math.round(Math.min(boxWidth, boxHeight * aspectRatio));
+  return { aspectRatio, width, height: Math.round(width / aspectRatio) };
+}
+
+/** Whether the visitor asked for reduced data usage (Save-Data; not exposed by every browser) */
+function prefersReducedData(): boolean {
+  const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+  return connection?.saveData === true;
+}
+
+/** Indices of the `count` slides after and before `index`, nearest first, wrapping like prev/next */
+function getNeighbourIndices(length: number, index: number, count: number): number[] {
+  const indices = new Set<number>();
+  for (let offset = 1; offset <= Math.min(count, length); offset++) {
+    indices.add((index + offset) % length);
+    indices.add((((index - offset) % length) + length) % length);
+  }
+  indices.delete(index);
+  return Array.from(indices);
+}
+
+/** A running preload, with what it was started for */
+type Preload = { media: MediaItem; box: string; cancel: () => void };
+
+/**
+ * Preload the slides around the current one at the size they will be shown at.
+ * A preload keeps running while its slide is current or in the window, and is
+ * cancelled when it leaves it, when its slide's media or the box change, and on unmount.
+ * Slides are compared by media, so callers rebuilding equal items don't restart preloads.
+ */
+function useNeighbourPreload(
+  items: MediaSlideshowItem[],
+  currentIndex: number,
+  count: number,
+  { width, height, sizes, quality }: { width: number; height: number; sizes?: string; quality?: number }
+) {
+  const preloadsRef = useRef(new Map<number, Preload>());
+
+  useEffect(() => {
+    const preloads = preloadsRef.current;
+    return () => {
+      preloads.forEach(({ cancel }) => cancel());
+      preloads.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const preloads = preloadsRef.current;
+    const box = [width, height, sizes, quality].join("|");
+    const neighbours =
+      count > 0 && !prefersReducedData() ? getNeighbourIndices(items.length, currentIndex, count) : [];
+    const keep = new Set([currentIndex, ...neighbours]);
+    preloads.forEach((preload, index) => {
+      const isCurrent = preload.media === items[index]?.media && preload.box === box;
+      if (keep.has(index) && isCurrent) return;
+      preload.cancel();
+      preloads.delete(index);
+    });
+
+    for (const index of neighbours) {
+      const media = items[index]?.media;
+      if (!media || preloads.has(index)) continue;
+      const slide = fitSlide(media, width, height);
+      const cancel = preloadMedia(media, {
+        fill: false,
+        width: slide.width,
+        height: slide.height,
+        sizes,
+        quality,
+        objectFit: "contain",
+      });
+      preloads.set(index, { media, box, cancel });
+    }
+  }, [items, currentIndex, count, width, height, sizes, quality]);
+}
+
 export default function MediaSlideshow({
   items,
   currentIndex,
@@ -51,10 +141,21 @@ export default function MediaSlideshow({
   width,
   height,
   mediaProps,
+  preloadCount = 1,
 }: MediaSlideshowProps) {
   const currentItem = items[currentIndex];
   const [slideWidths, setSlideWidths] = useState<Record<number, number>>({});
 
+  const effectiveWidth = width ?? 800;
+  const effectiveHeight = height ?? Math.round(effectiveWidth * 0.75);
+
+  useNeighbourPreload(items, currentIndex, preloadCount, {
+    width: effectiveWidth,
+    height: effectiveHeight,
+    sizes: mediaProps?.sizes,
+    quality: mediaProps?.quality,
+  });
+
   if (!currentItem || !currentItem.media) {
     return null;
   }
@@ -69,29 +170,28 @@ export default function MediaSlideshow({
     onNext();
   };
 
-  const effectiveWidth = width ?? 800;
-  const effectiveHeight =
-    height ?? Math.round(effectiveWidth * 0.75); // 4:3 fallback aspect ratio
+  // Fit the slide into the box up front, so the wrapper has its final width before
+  // the media loads. Slides without metadata are measured on load instead.
+  const {
+    aspectRatio,
+    width: slideWidth,
+    height: slideHeight,
+  } = fitSlide(currentItem.media, effectiveWidth, effectiveHeight);
 
   const handleLoad: NonNullable<OptimizedMediaProps["onLoad"]> = (info) => {
     setSlideWidths((prev) => ({ ...prev, [currentIndex]: info.renderedWidth }));
     mediaProps?.onLoad?.(info);
   };
 
-  const isVideo =
-    currentItem.media &&
-    ("videoType" in currentItem.media ||
-      (currentItem.media as { _type?: string })._type === "video");
-  const wrapperWidth =
-    slideWidths[currentIndex] ?? (isVideo ? effectiveWidth : undefined) ?? effectiveWidth;
+  const wrapperWidth = aspectRatio ? slideWidth : (slideWidths[currentIndex] ?? effectiveWidth);
 
   const content = (
     <OptimizedMedia
       media={currentItem.media}
       alt={currentItem.alt}
       fill={false}
-      width={effectiveWidth}
-      height={effectiveHeight}
+      width={slideWidth}
+      height={slideHeight}
       {...mediaProps}
       onLoad={handleLoad}
       objectFit="contain"
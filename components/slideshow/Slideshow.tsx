@@ -12,6 +12,9 @@ export interface SlideshowItem {
   image?: {
     asset?: { _ref: string; _type?: string };
     alt?: string;
+    /** Studio crop and hotspot, applied to the image URL and object-position */
+    crop?: { top?: number; bottom?: number; left?: number; right?: number };
+    hotspot?: { x?: number; y?: number };
   };
 }
 
@@ -77,7 +80,6 @@ export default function Slideshow({
               sizes={imageSizes}
               className={imageClassName}
               objectFit={objectFit}
-              objectPosition="center"
             />
           )}
         </div>
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getRevalidationTargets } from "./cache";
+
+describe("getRevalidationTargets", () => {
+  it("revalidates every page for global settings", () => {
+    assert.deepEqual(getRevalidationTargets("globalSettings"), { tags: ["globalSettings"], paths: [] });
+  });
+
+  it("revalidates projects for project tags", () => {
+    assert.deepEqual(getRevalidationTargets("projectTag"), { tags: ["projectTags"], paths: [] });
+  });
+
+  it("revalidates homepage and projects for Mux video assets", () => {
+    assert.deepEqual(getRevalidationTargets("mux.videoAsset"), {
+      tags: ["homepage", "projects"],
+      paths: [],
+    });
+  });
+
+  it("revalidates the homepage", () => {
+    assert.deepEqual(getRevalidationTargets("homepage"), { tags: ["homepage", "sitemap"], paths: ["/"] });
+  });
+
+  it("revalidates the information page", () => {
+    assert.deepEqual(getRevalidationTargets("information"), {
+      tags: ["information", "sitemap"],
+      paths: ["/information"],
+    });
+  });
+
+  it("revalidates a project and the project list", () => {
+    assert.deepEqual(getRevalidationTargets("project", "harbour"), {
+      tags: ["projects", "project:harbour", "sitemap"],
+      paths: ["/projects/harbour", "/projects"],
+    });
+  });
+
+  it("revalidates a post and the post list", () => {
+    assert.deepEqual(getRevalidationTargets("post", "hello"), {
+      tags: ["posts", "post:hello", "sitemap"],
+      paths: ["/posts/hello", "/posts"],
+    });
+  });
+
+  it("revalidates a page", () => {
+    assert.deepEqual(getRevalidationTargets("page", "about"), {
+      tags: ["pages", "page:about", "sitemap"],
+      paths: ["/about"],
+    });
+  });
+
+  it("revalidates only the type-wide targets without a slug", () => {
+    assert.deepEqual(getRevalidationTargets("post", null), {
+      tags: ["posts", "sitemap"],
+      paths: ["/posts"],
+    });
+  });
+
+  it("skips the path of a page with a reserved slug", () => {
+    assert.deepEqual(getRevalidationTargets("page", "projects").paths, []);
+  });
+
+  it("revalidates the old and new URL after a slug change", () => {
+    assert.deepEqual(getRevalidationTargets("post", "hello-world", "hello"), {
+      tags: ["posts", "post:hello-world", "post:hello", "sitemap"],
+      paths: ["/posts/hello-world", "/posts/hello", "/posts"],
+    });
+    assert.deepEqual(getRevalidationTargets("project", "harbour", "harbor").paths, [
+      "/projects/harbour",
+      "/projects/harbor",
+      "/projects",
+    ]);
+  });
+
+  it("revalidates the old URL when the slug was removed", () => {
+    assert.deepEqual(getRevalidationTargets("page", null, "about"), {
+      tags: ["pages", "page:about", "sitemap"],
+      paths: ["/about"],
+    });
+  });
+
+  it("does not repeat an unchanged slug", () => {
+    assert.deepEqual(getRevalidationTargets("post", "hello", "hello"), getRevalidationTargets("post", "hello"));
+  });
+
+  it("ignores unknown types", () => {
+    assert.deepEqual(getRevalidationTargets("sanity.imageAsset", "x"), { tags: [], paths: [] });
+  });
+});
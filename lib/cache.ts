@@ -0,0 +1,98 @@
+import { INDEX_ROUTES, pathForDocument } from "./routes";
+
+/**
+ * Cache Tags
+ *
+ * Every query in lib/queries.ts tags its fetch with these, and the Sanity
+ * webhook at /api/revalidate maps a changed document back to the same tags
+ * (and its public paths) so only affected pages are regenerated.
+ */
+export const CACHE_TAGS = {
+  globalSettings: "globalSettings",
+  homepage: "homepage",
+  information: "information",
+  projects: "projects",
+  project: (slug: string) => `project:${slug}`,
+  projectTags: "projectTags",
+  pages: "pages",
+  page: (slug: string) => `page:${slug}`,
+  posts: "posts",
+  post: (slug: string) => `post:${slug}`,
+  sitemap: "sitemap",
+} as const;
+
+/**
+ * Cache lifetime for tagged fetches, in seconds.
+ * With a webhook secret configured, content stays cached until the webhook revalidates it;
+ * without one, fall back to time-based revalidation.
+ */
+export const REVALIDATE_SECONDS: number | false = process.env.SANITY_REVALIDATE_SECRET ? false : 60;
+
+export interface RevalidationTargets {
+  tags: string[];
+  paths: string[];
+}
+
+/**
+ * Tags and paths to revalidate when a document changes
+ *
+ * @param type - Changed document's _type
+ * @param slug - Changed document's slug.current, if any
+ * @param previousSlug - Its slug before the change; when renamed, the old URL is revalidated too
+ *
+ * @example
+ * getRevalidationTargets("post", "hello")
+ * // { tags: ["posts", "post:hello", "sitemap"], paths: ["/posts/hello", "/posts"] }
+ */
+export function getRevalidationTargets(
+  type: string,
+  slug?: string | null,
+  previousSlug?: string | null
+): RevalidationTargets {
+  const tags: string[] = [];
+  const paths: string[] = [];
+  const slugs = Array.from(new Set([slug, previousSlug].filter((value): value is string => !!value)));
+
+  switch (type) {
+    case "globalSettings":
+      // Fetched by the site layout (metadata + navigation), so the tag reaches every page
+      return { tags: [CACHE_TAGS.globalSettings], paths: [] };
+    case "projectTag":
+      // Not routable; only referenced by projects (grid filter bar and project pages)
+      return { tags: [CACHE_TAGS.projectTags], paths: [] };
+    case "mux.videoAsset":
+      // Studio-uploaded video (ready once Mux has processed it), referenced by homepage and project
+      // videos; project pages carry the projects tag too, since the webhook doesn't know which ones
+      return { tags: [CACHE_TAGS.homepage, CACHE_TAGS.projects], paths: [] };
+    case "homepage":
+      tags.push(CACHE_TAGS.homepage);
+      break;
+    case "information":
+      tags.push(CACHE_TAGS.information);
+      break;
+    case "project":
+      tags.push(CACHE_TAGS.projects, ...slugs.map(CACHE_TAGS.project));
+      break;
+    case "page":
+      tags.push(CACHE_TAGS.pages, ...slugs.map(CACHE_TAGS.page));
+      break;
+    case "post":
+      tags.push(CACHE_TAGS.posts, ...slugs.map(CACHE_TAGS.post));
+      break;
+    default:
+      return { tags, paths };
+  }
+
+  // Any routable document can add, remove or re-date a sitemap entry
+  tags.push(CACHE_TAGS.sitemap);
+
+  for (const documentSlug of slugs.length > 0 ? slugs : [null]) {
+    const documentPath = pathForDocument(type, documentSlug);
+    if (documentPath && !paths.includes(documentPath)) paths.push(documentPath);
+  }
+  for (const index of INDEX_ROUTES) {
+    if (index.type === type) paths.push(index.path);
+  }
+
+  return { tags, paths };
+}
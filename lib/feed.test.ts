@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { portableTextToHtml, renderAtom, renderJsonFeed, renderRss, type Feed } from "./feed";
+import { absoluteUrl } from "./routes";
+
+const TITLE = `Tom & Jerry's <b>"Best"</b>`;
+const ESCAPED_TITLE = "Tom &amp; Jerry&apos;s &lt;b&gt;&quot;Best&quot;&lt;/b&gt;";
+const CONTENT = `<p>Fish &amp; chips</p><script>alert("x")</script>`;
+
+const feed: Feed = {
+  title: "Site & Co",
+  description: "Work <new>",
+  siteUrl: absoluteUrl("/"),
+  updated: "2024-02-01T10:00:00Z",
+  items: [
+    {
+      id: absoluteUrl("/posts/hello"),
+      title: TITLE,
+      url: absoluteUrl("/posts/hello"),
+      summary: "Less < more",
+      contentHtml: CONTENT,
+      image: absoluteUrl("/api/fixtures/assets/image.jpg"),
+      published: "2024-01-31T09:00:00Z",
+      updated: "2024-02-01T10:00:00Z",
+    },
+    {
+      id: absoluteUrl("/projects/harbour"),
+      title: "Harbour",
+      url: absoluteUrl("/projects/harbour"),
+      contentHtml: "",
+      published: "2024-01-01T00:00:00Z",
+      updated: "2024-01-01T00:00:00Z",
+    },
+  ],
+};
+
+describe("renderRss", () => {
+  const xml = renderRss(feed);
+
+  it("escapes titles, summaries and content", () => {
+    assert.ok(xml.includes(`<title>${ESCAPED_TITLE}</title>`));
+    assert.ok(xml.includes("<title>Site &amp; Co</title>"));
+    assert.ok(xml.includes("<description>Less &lt; more</description>"));
+    assert.ok(xml.includes("&lt;p&gt;Fish &amp;amp; chips&lt;/p&gt;&lt;script&gt;"));
+    assert.ok(!xml.includes(TITLE));
+    assert.ok(!xml.includes("<script>"));
+  });
+
+  it("lists every item with an RFC 822 date", () => {
+    assert.equal(xml.match(/<item>/g)?.length, 2);
+    assert.ok(xml.includes("<pubDate>Wed, 31 Jan 2024 09:00:00 GMT</pubDate>"));
+  });
+});
+
+describe("renderAtom", () => {
+  const xml = renderAtom(feed);
+
+  it("escapes titles, summaries and content", () => {
+    assert.ok(xml.includes(`<title>${ESCAPED_TITLE}</title>`));
+    assert.ok(xml.includes("<subtitle>Work &lt;new&gt;</subtitle>"));
+    assert.ok(xml.includes("<summary>Less &lt; more</summary>"));
+    assert.ok(xml.includes(`<content type="html">&lt;p&gt;Fish &amp;amp; chips`));
+    assert.ok(!xml.includes("<script>"));
+  });
+});
+
+describe("renderJsonFeed", () => {
+  const json = JSON.parse(renderJsonFeed(feed));
+
+  it("has the JSON Feed 1.1 top-level fields", () => {
+    assert.equal(json.version, "https://jsonfeed.org/version/1.1");
+    assert.equal(json.title, "Site & Co");
+    assert.equal(json.home_page_url, absoluteUrl("/"));
+    assert.equal(json.feed_url, absoluteUrl("/feed.json"));
+    assert.ok(Array.isArray(json.items));
+  });
+
+  it("gives each item an id, content and RFC 3339 dates, leaving out missing fields", () => {
+    const [post, project] = json.items;
+    assert.deepEqual(post, {
+      id: absoluteUrl("/posts/hello"),
+      url: absoluteUrl("/posts/hello"),
+      title: TITLE,
+      summary: "Less < more",
+      content_html: CONTENT,
+      image: absoluteUrl("/api/fixtures/assets/image.jpg"),
+      date_published: "2024-01-31T09:00:00.000Z",
+      date_modified: "2024-02-01T10:00:00.000Z",
+    });
+    assert.equal(typeof project.content_html, "string");
+    assert.equal("summary" in project, false);
+    assert.equal("image" in project, false);
+  });
+});
+
+describe("portableTextToHtml", () => {
+  it("makes image and relative link URLs absolute", () => {
+    const blocks = [
+      {
+        _type: "block",
+        _key: "b1",
+        style: "normal",
+        markDefs: [{ _key: "l1", _type: "link", href: "/projects" }],
+        children: [{ _type: "span", _key: "s1", text: "Projects", marks: ["l1"] }],
+      },
+      {
+        _type: "image",
+        _key: "i1",
+        alt: "A <view>",
+        asset: { _ref: "image-abc123-800x600-jpg", _type: "reference" },
+      },
+    ];
+    const html = portableTextToHtml(blocks);
+
+    assert.ok(html.includes(`<a href="${absoluteUrl("/projects")}">Projects</a>`));
+    const src = html.match(/<img src="([^"]+)"/)?.[1];
+    assert.ok(src?.startsWith("http"), `image URL is not absolute: ${src}`);
+    assert.ok(html.includes(`alt="A &lt;view&gt;"`));
+  });
+});
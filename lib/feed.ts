@@ -0,0 +1,253 @@
+import { escapeHTML, toHTML } from "@portabletext/to-html";
+import type { TypedObject } from "@portabletext/types";
+import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
+import { urlForImage } from "./image";
+import { projectTitleToPlainText } from "./projects";
+import { getAllPosts, getGlobalSettings, getProjects, unwrapQuery } from "./queries";
+import { absoluteUrl, pathForDocument } from "./routes";
+import { escapeXml } from "./utils";
+
+/**
+ * Feed Builder
+ *
+ * Builds one list of feed items from posts and projects and renders it as
+ * RSS 2.0 (/feed.xml), Atom (/atom.xml) and JSON Feed 1.1 (/feed.json).
+ */
+
+/** Maximum number of items in each feed (newest first) */
+export const FEED_ITEM_LIMIT = 30;
+
+/** Feed paths, used by the routes and the autodiscovery <link> tags */
+export const FEED_PATHS = {
+  rss: "/feed.xml",
+  atom: "/atom.xml",
+  json: "/feed.json",
+} as const;
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  summary?: string;
+  contentHtml: string;
+  image?: string;
+  published: string;
+  updated: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  siteUrl: string;
+  updated: string;
+  items: FeedItem[];
+}
+
+/** Absolute URL for a Sanity image at feed size (fixture assets are served by the site itself) */
+function feedImageUrl(image: SanityImageSource): string | undefined {
+  try {
+    const url = urlForImage(image).width(1200).url();
+    return url.startsWith("/") ? absoluteUrl(url) : url;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Serialize Portable Text to HTML for feed readers.
+ * Images become absolute image URLs; relative links are made absolute.
+ */
+export function portableTextToHtml(blocks: TypedObject[] | null | undefined): string {
+  if (!blocks || blocks.length === 0) return "";
+
+  return toHTML(blocks, {
+    components: {
+      types: {
+        image: ({ value }) => {
+          const src = value?.asset ? feedImageUrl(value) : undefined;
+          if (!src) return "";
+          const alt = typeof value.alt === "string" ? value.alt : "";
+          return `<figure><img src="${escapeHTML(src)}" alt="${escapeHTML(alt)}" />${
+            alt ? `<figcaption>${escapeHTML(alt)}</figcaption>` : ""
+          }</figure>`;
+        },
+      },
+      marks: {
+        link: ({ children, value }) => {
+          const href = typeof value?.href === "string" ? value.href : "";
+          if (!href) return children;
+          const absolute = href.startsWith("/") ? absoluteUrl(href) : href;
+          return `<a href="${escapeHTML(absolute)}">${children}</a>`;
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Fetch posts and projects and merge them into one feed, newest first.
+ * Posts are dated by publishedAt, projects by when they were created.
+ * Throws if a query fails, so a Sanity outage never publishes an empty feed.
+ */
+export async function getFeed(): Promise<Feed> {
+  const [postsResult, projectsResult, settingsResult] = await Promise.all([
+    getAllPosts(),
+    getProjects(),
+    getGlobalSettings(),
+  ]);
+  const posts = unwrapQuery(postsResult);
+  const projects = unwrapQuery(projectsResult);
+  const globalSettings = unwrapQuery(settingsResult);
+
+  const postItems = posts.flatMap((post): FeedItem[] => {
+    const path = pathForDocument("post", post.slug?.current);
+    const published = post.publishedAt ?? post._createdAt;
+    if (!path || !published) return [];
+
+    const image = post.featuredImage?.asset ? feedImageUrl(post.featuredImage) : undefined;
+    const contentHtml = [
+      image ? `<p><img src="${escapeHTML(image)}" alt="${escapeHTML(post.title ?? "")}" /></p>` : "",
+      portableTextToHtml(post.content),
+    ].join("");
+
+    return [
+      {
+        id: absoluteUrl(path),
+        title: post.title || "Untitled",
+        url: absoluteUrl(path),
+        summary: post.description ?? undefined,
+        contentHtml,
+        image,
+        published,
+        updated: post._updatedAt ?? published,
+      },
+    ];
+  });
+
+  const projectItems = projects.flatMap((project): FeedItem[] => {
+    const path = pathForDocument("project", project.slug?.current);
+    const published = project._createdAt;
+    if (!path || !published) return [];
+
+    const title = projectTitleToPlainText(project.title) || "Untitled";
+    const images = (project.slideshowImages ?? [])
+      .map((slide) => {
+        const source = "asset" in slide && slide.asset ? slide : "poster" in slide ? slide.poster : undefined;
+        return source?.asset ? feedImageUrl(source as SanityImageSource) : undefined;
+      })
+      .filter((url): url is string => !!url);
+    const contentHtml = images
+      .map((src) => `<p><img src="${escapeHTML(src)}" alt="${escapeHTML(title)}" /></p>`)
+      .join("");
+
+    return [
+      {
+        id: absoluteUrl(path),
+        title,
+        url: absoluteUrl(path),
+        contentHtml,
+        image: images[0],
+        published,
+        updated: project._updatedAt ?? published,
+      },
+    ];
+  });
+
+  const items = [...postItems, ...projectItems]
+    .sort((a, b) => (a.published < b.published ? 1 : a.published > b.published ? -1 : 0))
+    .slice(0, FEED_ITEM_LIMIT);
+
+  return {
+    title: globalSettings?.siteTitle || "Michael Wolever",
+    description: globalSettings?.siteDescription || "",
+    siteUrl: absoluteUrl("/"),
+    updated: items.reduce(
+      (max, item) => (item.updated > max ? item.updated : max),
+      items[0]?.updated ?? new Date(0).toISOString()
+    ),
+    items,
+  };
+}
+
+/** Render RSS 2.0 (full content in content:encoded) */
+export function renderRss(feed: Feed): string {
+  const items = feed.items
+    .map(
+      (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.id)}</guid>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>${
+        item.summary ? `\n      <description>${escapeXml(item.summary)}</description>` : ""
+      }
+      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>
+    </item>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.siteUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <atom:link href="${escapeXml(absoluteUrl(FEED_PATHS.rss))}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+${items}
+  </channel>
+</rss>`;
+}
+
+/** Render an Atom 1.0 feed */
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items
+    .map(
+      (item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}" />
+    <id>${escapeXml(item.id)}</id>
+    <published>${new Date(item.published).toISOString()}</published>
+    <updated>${new Date(item.updated).toISOString()}</updated>${
+      item.summary ? `\n    <summary>${escapeXml(item.summary)}</summary>` : ""
+    }
+    <content type="html">${escapeXml(item.contentHtml)}</content>
+  </entry>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>${
+    feed.description ? `\n  <subtitle>${escapeXml(feed.description)}</subtitle>` : ""
+  }
+  <link href="${escapeXml(feed.siteUrl)}" />
+  <link href="${escapeXml(absoluteUrl(FEED_PATHS.atom))}" rel="self" type="application/atom+xml" />
+  <id>${escapeXml(feed.siteUrl)}</id>
+  <updated>${new Date(feed.updated).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(feed.title)}</name>
+  </author>
+${entries}
+</feed>`;
+}
+
+/** Render JSON Feed 1.1 */
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description || undefined,
+    home_page_url: feed.siteUrl,
+    feed_url: absoluteUrl(FEED_PATHS.json),
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      image: item.image,
+      date_published: new Date(item.published).toISOString(),
+      date_modified: new Date(item.updated).toISOString(),
+    })),
+  });
+}
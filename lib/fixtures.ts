@@ -0,0 +1,98 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ClientPerspective, QueryParams, SanityDocument } from "@sanity/client";
+import { evaluate, parse } from "groq-js";
+import { FIXTURE_ASSETS_PATH } from "./image";
+import type { ContentClient } from "./sanity.client";
+
+/**
+ * Offline Fixture Backend
+ *
+ * When NEXT_PUBLIC_SANITY_FIXTURES points at a local dataset folder, content is
+ * read from it instead of the Sanity API (see lib/sanity.client.ts), so the site
+ * builds and runs without network access. The folder holds:
+ * - data.ndjson: a raw dataset export (`sanity dataset export --raw`), asset documents included
+ * - images/ and files/: the asset files, named as on the Sanity CDN
+ *
+ * Queries are evaluated with groq-js. Asset URLs are rewritten to the
+ * /api/fixtures/assets route, which serves the two asset folders.
+ * sanity/fixtures/sample is a small dataset covering every document type.
+ */
+
+/** Dataset folder, relative to the project root (empty when fixtures are off) */
+export const FIXTURES_DIR = process.env.NEXT_PUBLIC_SANITY_FIXTURES || "";
+
+const CDN_URL = "https://cdn.sanity.io/";
+
+/** Asset folders of a dataset export, as they appear in CDN URLs */
+export const FIXTURE_ASSET_KINDS = ["images", "files"] as const;
+
+/** Absolute path of the fixture folder */
+export function resolveFixturesDir(): string {
+  return path.resolve(process.cwd(), FIXTURES_DIR);
+}
+
+let documentsPromise: Promise<SanityDocument[]> | null = null;
+
+/** Read data.ndjson once per process, pointing asset URLs at the local asset route */
+function loadDocuments(): Promise<SanityDocument[]> {
+  documentsPromise ??= readFile(path.join(resolveFixturesDir(), "data.ndjson"), "utf8").then(
+    (ndjson) =>
+      ndjson
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => {
+          const doc = JSON.parse(line) as SanityDocument;
+          if (typeof doc.url === "string" && doc.url.startsWith(CDN_URL)) {
+            return { ...doc, url: `${FIXTURE_ASSETS_PATH}/${doc.url.slice(CDN_URL.length)}` };
+          }
+          return doc;
+        })
+  );
+  return documentsPromise;
+}
+
+const DRAFTS_PREFIX = "drafts.";
+
+/**
+ * Documents as seen from a perspective: "published" hides drafts, "drafts"
+ * replaces each document by its draft (keeping the published _id, like the API)
+ */
+function applyPerspective(
+  documents: SanityDocument[],
+  perspective: ClientPerspective | undefined
+): SanityDocument[] {
+  const published = documents.filter((doc) => !doc._id.startsWith(DRAFTS_PREFIX));
+  if (perspective !== "drafts") return published;
+
+  const drafts = new Map(
+    documents
+      .filter((doc) => doc._id.startsWith(DRAFTS_PREFIX))
+      .map((doc) => [doc._id.slice(DRAFTS_PREFIX.length), doc])
+  );
+  const merged = published.map((doc) => {
+    const draft = drafts.get(doc._id);
+    drafts.delete(doc._id);
+    return draft ? { ...draft, _id: doc._id, _originalId: draft._id } : doc;
+  });
+  const unpublished = Array.from(drafts, ([id, draft]) => ({ ...draft, _id: id, _originalId: draft._id }));
+  return [...merged, ...unpublished];
+}
+
+/**
+ * Stand-in for the Sanity client, answering queries from the fixture folder.
+ * Fetch options (cache, tags) and CDN/token settings don't apply and are ignored.
+ */
+export function createFixtureClient(perspective?: ClientPerspective): ContentClient {
+  return {
+    async fetch<R>(query: string, params: QueryParams = {}) {
+      const dataset = applyPerspective(await loadDocuments(), perspective);
+      const tree = parse(query, { params });
+      const value = await evaluate(tree, { dataset, params });
+      return (await value.get()) as R;
+    },
+    withConfig(config) {
+      return createFixtureClient(config.perspective ?? perspective);
+    },
+  };
+}
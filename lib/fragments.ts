@@ -0,0 +1,108 @@
+/**
+ * Shared GROQ projection fragments
+ *
+ * Interpolated into the queries in lib/queries.ts so every query projects media
+ * the same way. Keep these plain template strings (no runtime values): Sanity
+ * typegen resolves them when generating sanity/sanity.types.ts.
+ */
+
+/**
+ * Fields of an image with alt text (project slides, homepage images, video posters, featured images).
+ * The asset is dereferenced for its intrinsic size, LQIP placeholder and dominant color; crop and
+ * hotspot are the editor's framing (all read by lib/image.ts).
+ */
+export const imageFields = /* groq */ `
+  asset->{
+    _id,
+    url,
+    metadata{
+      dimensions,
+      lqip,
+      palette{
+        dominant
+      }
+    }
+  },
+  crop,
+  hotspot,
+  alt
+`;
+
+/**
+ * Fields of a video object: Mux video (with its public/signed policy and the time of its default
+ * poster) or uploaded file, with optional poster. The playback ID, aspect ratio ("16:9") and
+ * duration come from the Studio-uploaded Mux asset; videos not yet migrated keep their pasted ID.
+ */
+export const videoFields = /* groq */ `
+  videoType,
+  "muxPlaybackId": coalesce(muxVideo.asset->playbackId, muxPlaybackId),
+  "muxAspectRatio": muxVideo.asset->data.aspect_ratio,
+  "muxDuration": muxVideo.asset->data.duration,
+  playbackPolicy,
+  thumbnailTime,
+  videoFile{
+    asset->{
+      _id,
+      url,
+      originalFilename
+    }
+  },
+  poster{
+    ${imageFields}
+  },
+  alt,
+  autoplay,
+  loop,
+  muted,
+  controls
+`;
+
+/** Project slideshow entry: image or video, narrowed by _type */
+export const projectSlideFields = /* groq */ `
+  _key,
+  _type,
+  startVisible,
+  _type == "image" => {
+    ${imageFields}
+  },
+  _type == "video" => {
+    ${videoFields}
+  }
+`;
+
+/** Project fields shared by the grid, the single project page and the feeds */
+export const projectFields = /* groq */ `
+  _id,
+  _createdAt,
+  _updatedAt,
+  title,
+  slug,
+  order,
+  year,
+  client,
+  role,
+  location,
+  tags[]->{
+    _id,
+    title,
+    slug,
+    category
+  },
+  slideshowImages[]{
+    ${projectSlideFields}
+  }
+`;
+
+/** Post fields for listings; add `content` where the body is rendered */
+export const postFields = /* groq */ `
+  _id,
+  _createdAt,
+  _updatedAt,
+  title,
+  slug,
+  description,
+  featuredImage{
+    ${imageFields}
+  },
+  publishedAt
+`;
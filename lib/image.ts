@@ -1,5 +1,6 @@
 import imageUrlBuilder from "@sanity/image-url";
 import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
+import type { ImageLoader } from "next/image";
 
 /**
  * Image URL Builder
@@ -8,10 +9,17 @@ import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
  * Used for generating responsive, optimized images.
  */
 
-const builder = imageUrlBuilder({
-  projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID || "",
-  dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
-});
+/** Route serving fixture asset files in place of the Sanity CDN (see lib/fixtures.ts) */
+export const FIXTURE_ASSETS_PATH = "/api/fixtures/assets";
+
+const builder = imageUrlBuilder(
+  process.env.NEXT_PUBLIC_SANITY_FIXTURES
+    ? { projectId: "fixtures", dataset: "production", baseUrl: FIXTURE_ASSETS_PATH }
+    : {
+        projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID || "",
+        dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
+      }
+);
 
 /**
  * Generate an optimized image URL from a Sanity image source
@@ -32,40 +40,177 @@ export interface ImageDimensions {
   aspectRatio?: number;
 }
 
+export interface ImagePlaceholder {
+  /** Tiny base64 preview of the image (Sanity LQIP), for next/image's blurDataURL */
+  lqip?: string;
+  /** Dominant color of the image, shown behind it while it loads */
+  backgroundColor?: string;
+}
+
+/** Asset metadata, present when the query dereferences the asset (see imageFields in lib/fragments.ts) */
+type AssetMetadata = {
+  dimensions?: {
+    width?: number;
+    height?: number;
+    aspectRatio?: number;
+  } | null;
+  lqip?: string | null;
+  palette?: {
+    dominant?: { background?: string | null } | null;
+  } | null;
+};
+
+/** Studio crop (fraction cut from each edge) and hotspot (center, as a fraction of the full image) */
+type ImageCrop = { top?: number | null; bottom?: number | null; left?: number | null; right?: number | null };
+type ImageHotspot = { x?: number | null; y?: number | null };
+type ImageFraming = { crop?: ImageCrop | null; hotspot?: ImageHotspot | null };
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function getFraming(source: SanityImageSource | null | undefined): ImageFraming {
+  return source && typeof source === "object" ? (source as ImageFraming) : {};
+}
+
+/** Hotspot position within the cropped image (fractions, 0-1), or undefined without a hotspot */
+function getHotspotInCrop(source: SanityImageSource | null | undefined): { x: number; y: number } | undefined {
+  const { crop, hotspot } = getFraming(source);
+  if (hotspot?.x == null || hotspot.y == null) return undefined;
+  const left = crop?.left ?? 0;
+  const top = crop?.top ?? 0;
+  const width = 1 - left - (crop?.right ?? 0);
+  const height = 1 - top - (crop?.bottom ?? 0);
+  return {
+    x: clamp(width > 0 ? (hotspot.x - left) / width : 0.5),
+    y: clamp(height > 0 ? (hotspot.y - top) / height : 0.5),
+  };
+}
+
+function getAssetMetadata(source: SanityImageSource | null | undefined): AssetMetadata | undefined {
+  if (!source || typeof source !== "object") {
+    return undefined;
+  }
+  const image = source as { asset?: { metadata?: AssetMetadata | null } | null };
+  return image.asset?.metadata ?? undefined;
+}
+
 /**
  * Extract dimensions from a Sanity image source
- * Useful for Next.js Image component which requires width/height
+ * Useful for Next.js Image component which requires width/height.
+ * With a Studio crop, these are the dimensions of the cropped image (as served by sanityImageLoader).
  * 
  * @param source - Sanity image source
  * @returns Image dimensions object
  */
-export function getImageDimensions(source: SanityImageSource): ImageDimensions {
-  if (!source || typeof source !== "object") {
+export function getImageDimensions(source: SanityImageSource | null | undefined): ImageDimensions {
+  const dimensions = getAssetMetadata(source)?.dimensions;
+
+  if (!dimensions) {
     return {};
   }
 
-  const image = source as {
-    asset?: {
-      _ref?: string;
-      metadata?: {
-        dimensions?: {
-          width?: number;
-          height?: number;
-          aspectRatio?: number;
-        };
-      };
+  const { crop } = getFraming(source);
+  if (!crop || !dimensions.width || !dimensions.height) {
+    return {
+      width: dimensions.width,
+      height: dimensions.height,
+      aspectRatio: dimensions.aspectRatio,
     };
+  }
+
+  const width = Math.round(dimensions.width * (1 - (crop.left ?? 0) - (crop.right ?? 0)));
+  const height = Math.round(dimensions.height * (1 - (crop.top ?? 0) - (crop.bottom ?? 0)));
+  return { width, height, aspectRatio: width / height };
+}
+
+/**
+ * CSS object-position that keeps the editor's hotspot in view when the image is
+ * cropped by object-fit: cover, e.g. "30% 40%"
+ *
+ * @param source - Sanity image source
+ * @returns object-position value, or undefined when the image has no hotspot
+ */
+export function getHotspotPosition(source: SanityImageSource | null | undefined): string | undefined {
+  const hotspot = getHotspotInCrop(source);
+  if (!hotspot) return undefined;
+  return `${Math.round(hotspot.x * 100)}% ${Math.round(hotspot.y * 100)}%`;
+}
+
+/**
+ * Extract the loading placeholder (LQIP and dominant color) from a Sanity image source
+ *
+ * @param source - Sanity image source
+ * @returns Placeholder fields, empty when the asset metadata wasn't queried
+ */
+export function getImagePlaceholder(source: SanityImageSource | null | undefined): ImagePlaceholder {
+  const metadata = getAssetMetadata(source);
+
+  return {
+    lqip: metadata?.lqip ?? undefined,
+    backgroundColor: metadata?.palette?.dominant?.background ?? undefined,
   };
+}
 
-  const dimensions = image.asset?.metadata?.dimensions;
+/** Quality (Sanity `q` parameter) when none is given, the same as next/image's default */
+export const DEFAULT_IMAGE_QUALITY = 75;
 
-  if (!dimensions) {
-    return {};
-  }
+type PixelRect = { left: number; top: number; width: number; height: number };
 
+/** Asset size in pixels: from the metadata, or as encoded in the asset ID (image-<hash>-<w>x<h>-<ext>) */
+function getAssetSize(source: SanityImageSource): { width: number; height: number } | undefined {
+  const dimensions = getAssetMetadata(source)?.dimensions;
+  if (dimensions?.width && dimensions.height) return { width: dimensions.width, height: dimensions.height };
+  const asset = (source as { asset?: { _ref?: string; _id?: string } | null }).asset;
+  const match = (asset?._ref ?? asset?._id)?.match(/-(\d+)x(\d+)-\w+$/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : undefined;
+}
+
+/** The Studio crop (fractions cut from each edge) as a pixel rectangle */
+function cropToRect(crop: ImageCrop, size: { width: number; height: number }): PixelRect {
+  const left = Math.round((crop.left ?? 0) * size.width);
+  const top = Math.round((crop.top ?? 0) * size.height);
   return {
-    width: dimensions.width,
-    height: dimensions.height,
-    aspectRatio: dimensions.aspectRatio,
+    left,
+    top,
+    width: Math.round((1 - (crop.right ?? 0)) * size.width) - left,
+    height: Math.round((1 - (crop.bottom ?? 0)) * size.height) - top,
+  };
+}
+
+export interface SanityLoaderOptions {
+  /** Crop to this aspect ratio (width / height) around the hotspot; by default the whole (cropped) image is kept */
+  aspectRatio?: number;
+}
+
+/**
+ * next/image loader that requests every srcset width straight from the Sanity CDN
+ * (`w`, `q`, `auto=format`, `fit`), so images skip the Next.js optimizer.
+ * The Studio crop becomes `rect`; with an aspectRatio the CDN crops to it around
+ * the hotspot (`crop=focalpoint`, `fp-x`/`fp-y`, relative to the cropped image).
+ *
+ * @example
+ * <Image src={urlForImage(image).url()} loader={sanityImageLoader(image)} ... />
+ */
+export function sanityImageLoader(
+  source: SanityImageSource,
+  { aspectRatio }: SanityLoaderOptions = {}
+): ImageLoader {
+  const { crop } = getFraming(source);
+  const size = getAssetSize(source);
+  const rect = crop && size ? cropToRect(crop, size) : undefined;
+  const hotspot = getHotspotInCrop(source);
+
+  return ({ width, quality }) => {
+    let url = builder
+      .image(source)
+      .width(width)
+      .quality(quality ?? DEFAULT_IMAGE_QUALITY)
+      .auto("format");
+    if (rect) url = url.rect(rect.left, rect.top, rect.width, rect.height);
+    if (!aspectRatio) return url.fit("max").url();
+
+    url = url.height(Math.round(width / aspectRatio)).fit("crop");
+    if (!hotspot) return url.url();
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    return url.crop("focalpoint").focalPoint(round(hotspot.x), round(hotspot.y)).url();
   };
 }
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { createVerify, generateKeyPairSync, type KeyObject } from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  createMuxTokenSigner,
+  getMuxTokenSigner,
+  MuxSigningKeyError,
+  MUX_TOKEN_TTL_SECONDS,
+  signMuxPlaybackTokens,
+} from "./mux";
+
+/** Local key pair standing in for a Mux signing key */
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const KEY_ID = "local-test-key";
+
+/** Whether a JWT's RS256 signature verifies with a public key */
+function hasValidSignature(token: string, key: KeyObject): boolean {
+  const [header, payload, signature] = token.split(".");
+  return createVerify("RSA-SHA256").update(`${header}.${payload}`).verify(key, signature, "base64url");
+}
+
+/** Header and payload of a JWT, after checking its signature against the local public key */
+function verifyToken(token: string) {
+  assert.ok(hasValidSignature(token, publicKey), "signature does not verify");
+  const [header, payload] = token.split(".");
+  const decode = (part: string) => JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  return { header: decode(header), payload: decode(payload) };
+}
+
+describe("createMuxTokenSigner", () => {
+  it("signs RS256 tokens with the key ID, audience, subject and expiry", () => {
+    const sign = createMuxTokenSigner({ id: KEY_ID, privateKey });
+    const { header, payload } = verifyToken(sign("abc123", "playback", 1_700_000_000));
+
+    assert.deepEqual(header, { alg: "RS256", typ: "JWT", kid: KEY_ID });
+    assert.deepEqual(payload, { sub: "abc123", aud: "v", exp: 1_700_000_000, kid: KEY_ID });
+  });
+
+  it("accepts a PEM private key", () => {
+    const pem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const sign = createMuxTokenSigner({ id: KEY_ID, privateKey: pem });
+    verifyToken(sign("abc123", "thumbnail", 1_700_000_000));
+  });
+
+  it("adds extra claims without letting them override the standard ones", () => {
+    const sign = createMuxTokenSigner({ id: KEY_ID, privateKey });
+    const { payload } = verifyToken(sign("abc123", "thumbnail", 1_700_000_000, { time: 2, aud: "x" }));
+
+    assert.equal(payload.time, 2);
+    assert.equal(payload.aud, "t");
+  });
+
+  it("does not verify with another key pair", () => {
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const sign = createMuxTokenSigner({ id: KEY_ID, privateKey: other.privateKey });
+    assert.equal(hasValidSignature(sign("abc123", "playback", 1_700_000_000), publicKey), false);
+  });
+
+  it("rejects malformed and non-RSA keys", () => {
+    assert.throws(
+      () => createMuxTokenSigner({ id: KEY_ID, privateKey: "not a key" }),
+      MuxSigningKeyError
+    );
+    const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    assert.throws(
+      () => createMuxTokenSigner({ id: KEY_ID, privateKey: ec.privateKey }),
+      MuxSigningKeyError
+    );
+  });
+});
+
+describe("signMuxPlaybackTokens", () => {
+  it("mints playback, thumbnail and storyboard tokens that expire together", () => {
+    const now = Date.UTC(2024, 0, 1);
+    const sign = createMuxTokenSigner({ id: KEY_ID, privateKey });
+    const { tokens, expiresAt } = signMuxPlaybackTokens("abc123", sign, 2, now);
+
+    assert.equal(expiresAt, now / 1000 + MUX_TOKEN_TTL_SECONDS);
+    const claims = {
+      playback: verifyToken(tokens.playback).payload,
+      thumbnail: verifyToken(tokens.thumbnail).payload,
+      storyboard: verifyToken(tokens.storyboard).payload,
+    };
+    assert.deepEqual(
+      Object.values(claims).map(({ aud, sub, exp }) => [aud, sub, exp]),
+      [
+        ["v", "abc123", expiresAt],
+        ["t", "abc123", expiresAt],
+        ["s", "abc123", expiresAt],
+      ]
+    );
+    assert.equal(claims.thumbnail.time, 2);
+    assert.equal(claims.playback.time, undefined);
+  });
+
+  it("leaves the thumbnail time to Mux when the video has none", () => {
+    const sign = createMuxTokenSigner({ id: KEY_ID, privateKey });
+    const { tokens } = signMuxPlaybackTokens("abc123", sign, null);
+    assert.equal(verifyToken(tokens.thumbnail).payload.time, undefined);
+  });
+});
+
+describe("getMuxTokenSigner", () => {
+  it("throws MuxSigningKeyError for a malformed MUX_SIGNING_PRIVATE_KEY", () => {
+    process.env.MUX_SIGNING_KEY_ID = KEY_ID;
+    process.env.MUX_SIGNING_PRIVATE_KEY = Buffer.from("not a key").toString("base64");
+    try {
+      assert.throws(() => getMuxTokenSigner(), MuxSigningKeyError);
+    } finally {
+      delete process.env.MUX_SIGNING_KEY_ID;
+      delete process.env.MUX_SIGNING_PRIVATE_KEY;
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { createPrivateKey, createSign, type KeyObject } from "crypto";
+
+/**
+ * Mux Signed Playback
+ *
+ * Videos with playbackPolicy "signed" need a JWT per playback ID for each Mux
+ * resource the player loads: the stream, thumbnails (poster) and storyboards
+ * (timeline previews). Tokens are RS256-signed with a Mux signing key on the
+ * server (see /api/mux/tokens) and handed to MuxPlayer by OptimizedMedia.
+ *
+ * Server-only: imports Node crypto. Client code may import the types.
+ */
+
+/** Token audience ("aud" claim) per MuxPlayer token */
+const MUX_TOKEN_AUDIENCES = {
+  playback: "v",
+  thumbnail: "t",
+  storyboard: "s",
+} as const;
+
+export type MuxTokenType = keyof typeof MUX_TOKEN_AUDIENCES;
+
+/** Tokens in the shape of MuxPlayer's `tokens` prop */
+export type MuxPlaybackTokens = Record<MuxTokenType, string>;
+
+/** JSON body of /api/mux/tokens */
+export interface MuxTokensResponse {
+  tokens: MuxPlaybackTokens;
+  /** Expiry of the tokens, in seconds since the epoch */
+  expiresAt: number;
+}
+
+/** How long minted tokens are valid, in seconds */
+export const MUX_TOKEN_TTL_SECONDS = 60 * 60;
+
+export interface MuxSigningKey {
+  /** Signing key ID from the Mux dashboard ("kid") */
+  id: string;
+  /** RSA private key: a KeyObject or PEM */
+  privateKey: KeyObject | string;
+}
+
+/** Image parameters of a signed thumbnail, which Mux only reads from the token (e.g. `time`) */
+export type MuxTokenParams = Record<string, string | number>;
+
+/**
+ * Signs one token: a playback ID, the resource it grants, an expiry (seconds since the epoch)
+ * and extra claims. Injectable so tokens can be minted and verified with a local key pair,
+ * without a Mux account.
+ */
+export type MuxTokenSigner = (
+  playbackId: string,
+  type: MuxTokenType,
+  expiresAt: number,
+  params?: MuxTokenParams
+) => string;
+
+/** The configured signing key can't be used (not a valid RSA private key); the original error is its cause */
+export class MuxSigningKeyError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "MuxSigningKeyError";
+  }
+}
+
+function base64UrlJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * RS256 JWT signer for a signing key
+ *
+ * @throws MuxSigningKeyError when the private key can't be parsed or isn't an RSA key
+ *
+ * @example
+ * const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+ * const sign = createMuxTokenSigner({ id: "local", privateKey });
+ * sign("abc123", "playback", Math.floor(Date.now() / 1000) + 60);
+ */
+export function createMuxTokenSigner(key: MuxSigningKey): MuxTokenSigner {
+  let privateKey: KeyObject;
+  try {
+    privateKey = typeof key.privateKey === "string" ? createPrivateKey(key.privateKey) : key.privateKey;
+  } catch (error) {
+    throw new MuxSigningKeyError(`Mux signing key ${key.id} is not a valid private key`, { cause: error });
+  }
+  if (privateKey.asymmetricKeyType !== "rsa") {
+    throw new MuxSigningKeyError(`Mux signing key ${key.id} is not an RSA key`);
+  }
+
+  return (playbackId, type, expiresAt, params = {}) => {
+    const header = base64UrlJson({ alg: "RS256", typ: "JWT", kid: key.id });
+    const payload = base64UrlJson({
+      ...params,
+      sub: playbackId,
+      aud: MUX_TOKEN_AUDIENCES[type],
+      exp: expiresAt,
+      kid: key.id,
+    });
+    const signature = createSign("RSA-SHA256")
+      .update(`${header}.${payload}`)
+      .sign(privateKey, "base64url");
+    return `${header}.${payload}.${signature}`;
+  };
+}
+
+/**
+ * Signing key from MUX_SIGNING_KEY_ID and MUX_SIGNING_PRIVATE_KEY, or null when either is unset.
+ * The private key may be PEM or base64-encoded PEM (as Mux shows it when the key is created).
+ */
+export function getMuxSigningKeyFromEnv(): MuxSigningKey | null {
+  const id = process.env.MUX_SIGNING_KEY_ID;
+  const encoded = process.env.MUX_SIGNING_PRIVATE_KEY;
+  if (!id || !encoded) return null;
+  const privateKey = encoded.includes("-----BEGIN")
+    ? encoded
+    : Buffer.from(encoded, "base64").toString("utf8");
+  return { id, privateKey };
+}
+
+let envSigner: MuxTokenSigner | null | undefined;
+
+/**
+ * Signer for the configured signing key (created once), or null when signed playback isn't configured
+ *
+ * @throws MuxSigningKeyError when MUX_SIGNING_PRIVATE_KEY is malformed (checked again on the next call)
+ */
+export function getMuxTokenSigner(): MuxTokenSigner | null {
+  if (envSigner === undefined) {
+    const key = getMuxSigningKeyFromEnv();
+    envSigner = key ? createMuxTokenSigner(key) : null;
+  }
+  return envSigner;
+}
+
+/**
+ * Playback, thumbnail and storyboard tokens for a playback ID
+ *
+ * @param thumbnailTime - Second of the poster frame (the video's thumbnailTime)
+ * @param now - Current time in ms
+ */
+export function signMuxPlaybackTokens(
+  playbackId: string,
+  sign: MuxTokenSigner,
+  thumbnailTime?: number | null,
+  now = Date.now()
+): MuxTokensResponse {
+  const expiresAt = Math.floor(now / 1000) + MUX_TOKEN_TTL_SECONDS;
+  const thumbnailParams = thumbnailTime != null ? { time: thumbnailTime } : undefined;
+  return {
+    tokens: {
+      playback: sign(playbackId, "playback", expiresAt),
+      thumbnail: sign(playbackId, "thumbnail", expiresAt, thumbnailParams),
+      storyboard: sign(playbackId, "storyboard", expiresAt),
+    },
+    expiresAt,
+  };
+}
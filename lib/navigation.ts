@@ -0,0 +1,39 @@
+import type { GlobalSettings } from "./queries";
+
+/**
+ * Site Navigation
+ *
+ * Resolves the navigation shown by Nav from Global Settings. Kept out of the
+ * "use client" NavigationProvider so the server layout can call it.
+ */
+
+/** Resolved site navigation: identity name + ordered links */
+export type SiteNavigation = {
+  identity: string;
+  items: Array<{ label: string; href: string }>;
+};
+
+/** Used until Global Settings → Navigation is filled in */
+export const DEFAULT_NAVIGATION: SiteNavigation = {
+  identity: "Michael Wolever",
+  items: [
+    { label: "Projects", href: "/projects" },
+    { label: "Information", href: "/information" },
+  ],
+};
+
+/**
+ * Resolve navigation from Global Settings.
+ * Identity falls back to the site title; items fall back to the defaults when none are set.
+ */
+export function toSiteNavigation(globalSettings: GlobalSettings | null): SiteNavigation {
+  const items = (globalSettings?.navigation?.items ?? [])
+    .filter((item) => item.label && item.href)
+    .map((item) => ({ label: item.label!, href: item.href! }));
+
+  return {
+    identity:
+      globalSettings?.navigation?.identity || globalSettings?.siteTitle || DEFAULT_NAVIGATION.identity,
+    items: items.length > 0 ? items : DEFAULT_NAVIGATION.items,
+  };
+}
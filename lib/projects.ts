@@ -0,0 +1,113 @@
+import type { MediaItem } from "@/components/images/OptimizedMedia";
+import type { MediaSlideshowItem } from "@/components/slideshow/MediaSlideshow";
+import type { Project, ProjectSlide, ProjectTag } from "./queries";
+
+/**
+ * Project helpers
+ *
+ * Shared by the projects grid overlay and the /projects/[slug] page so both
+ * normalize slides and titles the same way, and by the projects filter bar.
+ */
+
+/**
+ * Normalize a project slideshow item (image or video) to OptimizedMedia's MediaItem, or null.
+ * Unplayable slides are already dropped (and reported) by lib/validation.ts; this is a last guard.
+ */
+export function toMediaItem(item: ProjectSlide | null): MediaItem | null {
+  if (!item) return null;
+  if (item._type === "image") return item.asset ? item : null;
+  if (item.videoType === "mux" && item.muxPlaybackId) return item;
+  if (item.videoType === "file" && item.videoFile?.asset) return item;
+  return null;
+}
+
+/** Plain text from project title (blocks or legacy string) for alt text etc. */
+export function projectTitleToPlainText(title: Project["title"] | string): string {
+  if (typeof title === "string") return title;
+  if (!Array.isArray(title)) return "";
+  return title
+    .map(
+      (block) =>
+        block?.children
+          ?.filter((c) => c._type === "span")
+          .map((s) => s.text ?? "")
+          .join("") ?? ""
+    )
+    .join("\n")
+    .trim();
+}
+
+/** Map a project's slideshow (images + videos) to MediaSlideshowItem[] for overlay */
+export function projectToMediaSlideshowItems(
+  project: Project | null | undefined
+): MediaSlideshowItem[] {
+  if (!project) return [];
+  const titlePlain = projectTitleToPlainText(project.title);
+  return (project.slideshowImages ?? []).map((img) => ({
+    media: toMediaItem(img),
+    alt: img.alt ?? titlePlain ?? "",
+  }));
+}
+
+/** Categories of project tags (sanity/schemaTypes/projectTag.ts), in filter bar order */
+export const PROJECT_TAG_CATEGORIES = [
+  { title: "Medium", value: "medium" },
+  { title: "Discipline", value: "discipline" },
+];
+
+/** Projects page filter, mirrored in the URL (e.g. /projects?tag=photography&year=2024) */
+export type ProjectFilter = {
+  /** Tag slug */
+  tag: string | null;
+  year: number | null;
+};
+
+export const NO_PROJECT_FILTER: ProjectFilter = { tag: null, year: null };
+
+/** Whether a project passes the filter (every project passes an empty filter) */
+export function projectMatchesFilter(project: Project, filter: ProjectFilter): boolean {
+  if (filter.tag && !project.tags?.some((tag) => tag.slug?.current === filter.tag)) return false;
+  if (filter.year != null && project.year !== filter.year) return false;
+  return true;
+}
+
+export type ProjectFilterOptions = {
+  /** Tags used by at least one project, grouped by category and sorted by title */
+  tagGroups: { title: string; tags: ProjectTag[] }[];
+  /** Years of the projects, newest first */
+  years: number[];
+};
+
+/** What the filter bar can offer for a list of projects */
+export function getProjectFilterOptions(projects: Project[]): ProjectFilterOptions {
+  const tags = new Map<string, ProjectTag>();
+  const years = new Set<number>();
+  for (const project of projects) {
+    project.tags?.forEach((tag) => tags.set(tag._id, tag));
+    if (project.year != null) years.add(project.year);
+  }
+
+  const tagGroups = PROJECT_TAG_CATEGORIES.map((category) => ({
+    title: category.title,
+    tags: Array.from(tags.values())
+      .filter((tag) => tag.category === category.value)
+      .sort((a, b) => (a.title ?? "").localeCompare(b.title ?? "")),
+  })).filter((group) => group.tags.length > 0);
+
+  return { tagGroups, years: Array.from(years).sort((a, b) => b - a) };
+}
+
+/** Search params that mirror the projects grid overlay, e.g. /projects?project=<slug>&slide=3 (slide is 1-based) */
+export const PROJECT_PARAM = "project";
+export const SLIDE_PARAM = "slide";
+
+/**
+ * Path that opens a project in the projects grid overlay
+ *
+ * @example
+ * projectOverlayPath("harbour-light") // "/projects?project=harbour-light&slide=1"
+ */
+export function projectOverlayPath(slug: string, slideIndex = 0): string {
+  const params = new URLSearchParams({ [PROJECT_PARAM]: slug, [SLIDE_PARAM]: String(slideIndex + 1) });
+  return `/projects?${params}`;
+}
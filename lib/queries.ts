@@ -1,126 +1,219 @@
-import { sanityClient } from "./sanity.client";
-import type { PortableTextBlock } from "@portabletext/types";
+import { draftMode } from "next/headers";
+import { notFound } from "next/navigation";
+import type { QueryParams } from "@sanity/client";
+import { groq } from "next-sanity";
+import type {
+  ALL_PAGES_QUERYResult,
+  ALL_POSTS_QUERYResult,
+  GLOBAL_SETTINGS_QUERYResult,
+  HOMEPAGE_QUERYResult,
+  INFORMATION_QUERYResult,
+  PAGE_BY_SLUG_QUERYResult,
+  PAGINATED_POSTS_QUERYResult,
+  POST_BY_SLUG_QUERYResult,
+  PROJECT_BY_SLUG_QUERYResult,
+  PROJECTS_QUERYResult,
+  SEARCH_QUERYResult,
+  SIGNED_MUX_VIDEO_QUERYResult,
+  SITEMAP_DOCUMENTS_QUERYResult,
+} from "@/sanity/sanity.types";
+import { previewClient, sanityClient } from "./sanity.client";
+import { CACHE_TAGS, REVALIDATE_SECONDS } from "./cache";
+import { imageFields, postFields, projectFields, videoFields } from "./fragments";
+import {
+  validateGlobalSettings,
+  validateHomepage,
+  validateInformation,
+  validatePage,
+  validatePages,
+  validatePaginatedPosts,
+  validatePost,
+  validatePosts,
+  validateProjectBySlug,
+  validateProjects,
+  validateSearchResults,
+  validateSitemapDocuments,
+} from "./validation";
 
 /**
  * TypeScript types for Sanity content
- * These match the schema definitions in sanity/schemaTypes/
+ * Derived from the typegen results of the queries below (sanity/sanity.types.ts),
+ * so they follow the schema definitions in sanity/schemaTypes/. Run `npm run typegen`
+ * after changing a schema or a query.
  */
 
-export interface GlobalSettings {
-  _id: string;
-  siteTitle?: string;
-  siteDescription?: string;
-  defaultOgImage?: {
-    asset: {
-      _ref: string;
-      _type: "reference";
-    };
-  };
-}
-
-/** Single slideshow item from homepage (title + image only) */
-export interface HomepageSlideshowItem {
-  title?: string;
-  image?: {
-    asset?: { _ref: string; _type: "reference" };
-    alt?: string;
-  };
-  video?: {
-    _type?: "video";
-    videoType?: "mux" | "file";
-    muxPlaybackId?: string;
-    videoFile?: {
-      asset?: {
-        _ref?: string;
-        _type?: string;
-        url?: string;
-        originalFilename?: string;
-      };
-    };
-    poster?: {
-      asset?: { _ref?: string; _type?: string; _id?: string };
-      alt?: string;
-    };
-    alt?: string;
-    autoplay?: boolean;
-    loop?: boolean;
-    muted?: boolean;
-    controls?: boolean;
-  };
-}
+export type GlobalSettings = NonNullable<GLOBAL_SETTINGS_QUERYResult>;
+export type Navigation = NonNullable<GlobalSettings["navigation"]>;
+export type NavigationItem = NonNullable<Navigation["items"]>[number];
 
 /** Homepage document: slideshow items only */
-export interface Homepage {
-  _id: string;
-  items?: HomepageSlideshowItem[];
-}
+export type Homepage = NonNullable<HOMEPAGE_QUERYResult>;
+/** Single slideshow item from homepage (title + image or video) */
+export type HomepageSlideshowItem = NonNullable<Homepage["items"]>[number];
 
-export interface Page {
-  _id: string;
-  title?: string;
-  slug?: {
-    current: string;
-  };
-  description?: string;
-  content?: PortableTextBlock[]; // Portable text content (array of blocks)
-}
+/** Image with alt text, as projected by imageFields (lib/fragments.ts) */
+export type ImageMedia = NonNullable<HomepageSlideshowItem["image"]>;
+/** Video object, as projected by videoFields (lib/fragments.ts) */
+export type VideoMedia = NonNullable<HomepageSlideshowItem["video"]>;
 
-export interface Post {
-  _id: string;
-  title?: string;
-  slug?: {
-    current: string;
-  };
-  description?: string;
-  content?: PortableTextBlock[]; // Portable text content (array of blocks)
-  featuredImage?: {
-    asset: {
-      _ref: string;
-      _type: "reference";
-    };
-  };
-  publishedAt?: string;
-}
+export type Page = NonNullable<PAGE_BY_SLUG_QUERYResult>;
+/** Page title + slug, as listed for static params */
+export type PageSummary = ALL_PAGES_QUERYResult[number];
+
+export type Post = ALL_POSTS_QUERYResult[number];
+/** Post without its content, as listed on the paginated /posts index */
+export type PostSummary = PAGINATED_POSTS_QUERYResult["posts"][number];
+
+/** Information document for the /information page */
+export type Information = NonNullable<INFORMATION_QUERYResult>;
+/** One CV line (exhibition, award, publication, ...) */
+export type CvEntry = NonNullable<
+  NonNullable<Information["cvSections"]>[number]["entries"]
+>[number];
 
 /** Project document for the projects page grid */
-export interface Project {
-  _id: string;
-  /** Title as portable text (blocks) or legacy string */
-  title?: PortableTextBlock[] | string;
-  slug?: { current: string };
-  order?: number;
-  slideshowImages?: Array<
-    | {
-        _type?: "image";
-        asset?: { _ref: string; _type?: string };
-        alt?: string;
-        startVisible?: boolean;
-      }
-    | {
-        _type: "video";
-        videoType?: "mux" | "file";
-        muxPlaybackId?: string;
-        videoFile?: {
-          asset?: {
-            _ref?: string;
-            _type?: string;
-            url?: string;
-            originalFilename?: string;
-          };
-        };
-        poster?: {
-          asset?: { _ref?: string; _type?: string; _id?: string };
-          alt?: string;
-        };
-        alt?: string;
-        autoplay?: boolean;
-        loop?: boolean;
-        muted?: boolean;
-        controls?: boolean;
-        startVisible?: boolean;
-      }
-  >;
-}
+export type Project = PROJECTS_QUERYResult[number];
+/** Project slideshow entry (image or video) */
+export type ProjectSlide = NonNullable<Project["slideshowImages"]>[number];
+/** Medium or discipline tag of a project, as used by the projects filter bar */
+export type ProjectTag = NonNullable<Project["tags"]>[number];
+
+/** Project, post or page matching a search, best match first */
+export type SearchResult = SEARCH_QUERYResult[number];
+
+/** Video with the signed Mux playback policy: what its tokens need to know */
+export type SignedMuxVideo = NonNullable<SIGNED_MUX_VIDEO_QUERYResult>;
+
+/** Routable document summary for the sitemap */
+export type SitemapDocument = SITEMAP_DOCUMENTS_QUERYResult[number];
+
+/**
+ * GROQ queries
+ * Exported for Sanity typegen, which generates a <NAME>Result type for each.
+ */
+
+export const GLOBAL_SETTINGS_QUERY = groq`*[_type == "globalSettings"][0]`;
+
+export const HOMEPAGE_QUERY = groq`*[_type == "homepage"][0]{
+  _id,
+  items[]{
+    _key,
+    title,
+    image{
+      "_type": "image",
+      ${imageFields}
+    },
+    video{
+      "_type": "video",
+      ${videoFields}
+    }
+  }
+}`;
+
+export const INFORMATION_QUERY = groq`*[_type == "information"][0]{
+  _id,
+  bio,
+  contact{
+    email,
+    phone,
+    socialLinks[]{ _key, label, url }
+  },
+  representation[]{ _key, name, location, url },
+  cvSections[]{
+    _key,
+    title,
+    entries[]{ _key, year, title, details, url }
+  }
+}`;
+
+export const PROJECTS_QUERY = groq`*[_type == "project"] | order(order asc) {
+  ${projectFields}
+}`;
+
+export const PROJECT_BY_SLUG_QUERY = groq`*[_type == "project" && slug.current == $slug][0]{
+  ${projectFields}
+}`;
+
+export const PAGE_BY_SLUG_QUERY = groq`*[_type == "page" && slug.current == $slug][0]{
+  _id,
+  title,
+  slug,
+  description,
+  content
+}`;
+
+export const ALL_PAGES_QUERY = groq`*[_type == "page" && defined(slug.current)]{
+  _id,
+  title,
+  slug
+}`;
+
+export const ALL_POSTS_QUERY = groq`*[_type == "post"] | order(publishedAt desc) {
+  ${postFields},
+  content
+}`;
+
+/** Only posts with a slug, in both the page and the total, so page counts match the listed posts */
+export const PAGINATED_POSTS_QUERY = groq`{
+  "posts": *[_type == "post" && defined(slug.current)] | order(publishedAt desc) [$start...$end] {
+    ${postFields}
+  },
+  "total": count(*[_type == "post" && defined(slug.current)])
+}`;
+
+export const POST_BY_SLUG_QUERY = groq`*[_type == "post" && slug.current == $slug][0]{
+  ${postFields},
+  content
+}`;
+
+export const SITEMAP_DOCUMENTS_QUERY = groq`*[_type in $types && !(_id in path("drafts.**"))]{
+  _id,
+  _type,
+  _updatedAt,
+  "slug": slug.current,
+  _type == "project" => {
+    "images": slideshowImages[]{
+      "url": coalesce(asset->url, poster.asset->url)
+    }[defined(url)].url
+  }
+}`;
+
+/**
+ * Projects, posts and pages whose text matches every search term (see toSearchTerms in lib/search.ts),
+ * scored by where they match: titles outweigh descriptions and project details, which outweigh body text.
+ * Project titles and post/page content are Portable Text, searched as plain text.
+ */
+export const SEARCH_QUERY = groq`*[
+  _type in ["project", "post", "page"] && defined(slug.current) && (
+    pt::text(title) match $terms ||
+    title match $terms ||
+    description match $terms ||
+    [client, role, location] match $terms ||
+    pt::text(content) match $terms
+  )
+] | score(
+  boost(pt::text(title) match $terms, 5),
+  boost(title match $terms, 5),
+  boost(description match $terms, 2),
+  boost([client, role, location] match $terms, 2),
+  pt::text(content) match $terms
+) | order(_score desc) [0...$limit] {
+  _id,
+  _type,
+  "title": coalesce(pt::text(title), title),
+  "slug": slug.current,
+  "excerpt": select(_type == "project" => client, description)
+}`;
+
+/** Homepage item or project video playing a Mux playback ID with the signed policy (null when none does) */
+export const SIGNED_MUX_VIDEO_QUERY = groq`[
+  ...*[_type == "homepage"].items[].video,
+  ...*[_type == "project"].slideshowImages[_type == "video"]
+][
+  playbackPolicy == "signed" && coalesce(muxVideo.asset->playbackId, muxPlaybackId) == $playbackId
+][0]{
+  thumbnailTime
+}`;
 
 /**
  * Sanity Data Queries
@@ -130,205 +223,286 @@ export interface Project {
  */
 
 /**
- * Fetch global site settings
- * Create a document of type "globalSettings" in Sanity Studio
+ * Whether Next.js draft mode is on for this request.
+ * Outside a request (e.g. generateStaticParams at build time) there is no draft mode.
  */
-export async function getGlobalSettings(): Promise<GlobalSettings | null> {
+function isDraftModeEnabled(): boolean {
   try {
-    const query = `*[_type == "globalSettings"][0]`;
-    return await sanityClient.fetch<GlobalSettings | null>(query);
-  } catch (error) {
-    console.error("Error fetching global settings:", error);
-    return null;
+    return draftMode().isEnabled;
+  } catch {
+    return false;
   }
 }
 
 /**
- * Fetch homepage (slideshow items only)
- * Create a single "Homepage" document in Sanity Studio
+ * Fetch with Next.js cache tags so /api/revalidate can invalidate exactly
+ * the queries a changed document affects (see lib/cache.ts).
+ * In draft mode, reads drafts uncached through the preview client instead.
  */
-export async function getHomepage(): Promise<Homepage | null> {
+function sanityFetch<T>(query: string, params: QueryParams, tags: string[]): Promise<T> {
+  if (isDraftModeEnabled()) {
+    return previewClient.fetch<T>(query, params, { cache: "no-store" });
+  }
+  return sanityClient.fetch<T>(query, params, {
+    next: { revalidate: REVALIDATE_SECONDS, tags },
+  });
+}
+
+/** Outcome of a query: the data, a missing document, or a failed fetch */
+export type QueryResult<T> =
+  | { status: "ok"; data: T }
+  | { status: "not-found" }
+  | { status: "error"; error: QueryError };
+
+/** Outcome of a list query, which is never "not-found" (an empty list is ok) */
+export type ListQueryResult<T> = Exclude<QueryResult<T>, { status: "not-found" }>;
+
+/** A Sanity fetch that failed (network, auth, malformed query); the original error is its cause */
+export class QueryError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "QueryError";
+  }
+}
+
+/** Run a query, mapping thrown errors to "error" */
+async function runQuery<T>(
+  description: string,
+  query: () => Promise<T>
+): Promise<ListQueryResult<T>> {
   try {
-    const query = `*[_type == "homepage"][0]{
-      _id,
-      items[]{
-        title,
-        image{
-          asset,
-          alt
-        },
-        video{
-          _type,
-          videoType,
-          muxPlaybackId,
-          videoFile{
-            asset->{
-              _ref,
-              _type,
-              url,
-              originalFilename
-            }
-          },
-          poster{
-            asset,
-            alt
-          },
-          alt,
-          autoplay,
-          loop,
-          muted,
-          controls
-        }
-      }
-    }`;
-    return await sanityClient.fetch<Homepage | null>(query);
+    return { status: "ok", data: await query() };
   } catch (error) {
-    console.error("Error fetching homepage:", error);
-    return null;
+    console.error(`Error fetching ${description}:`, error);
+    return {
+      status: "error",
+      error: new QueryError(`Failed to fetch ${description}`, { cause: error }),
+    };
   }
 }
 
+/** Run a single-document query, additionally mapping a null result to "not-found" */
+async function runDocumentQuery<T>(
+  description: string,
+  query: () => Promise<T | null>
+): Promise<QueryResult<T>> {
+  const result = await runQuery(description, query);
+  if (result.status === "error") return result;
+  return result.data == null ? { status: "not-found" } : { status: "ok", data: result.data };
+}
+
+/**
+ * Data of a query; null for a missing document (optional content such as global settings).
+ * Throws on a failed fetch so the route's error.tsx renders and ISR keeps the last good page.
+ */
+export function unwrapQuery<T>(result: ListQueryResult<T>): T;
+export function unwrapQuery<T>(result: QueryResult<T>): T | null;
+export function unwrapQuery<T>(result: QueryResult<T>): T | null {
+  if (result.status === "error") throw result.error;
+  return result.status === "ok" ? result.data : null;
+}
+
+/**
+ * Data of a query for a route's main document: calls notFound() when it is missing
+ * and throws on a failed fetch (see unwrapQuery).
+ */
+export function unwrapQueryOrNotFound<T>(result: QueryResult<T>): T {
+  if (result.status === "not-found") notFound();
+  if (result.status === "error") throw result.error;
+  return result.data;
+}
+
+/**
+ * Fetch global site settings
+ * Create a document of type "globalSettings" in Sanity Studio
+ */
+export function getGlobalSettings(): Promise<QueryResult<GlobalSettings>> {
+  return runDocumentQuery("global settings", async () => {
+    const settings = await sanityFetch<GLOBAL_SETTINGS_QUERYResult>(
+      GLOBAL_SETTINGS_QUERY,
+      {},
+      [CACHE_TAGS.globalSettings]
+    );
+    return validateGlobalSettings(settings);
+  });
+}
+
+/**
+ * Fetch homepage (slideshow items only)
+ * Create a single "Homepage" document in Sanity Studio
+ */
+export function getHomepage(): Promise<QueryResult<Homepage>> {
+  return runDocumentQuery("homepage", async () => {
+    const homepage = await sanityFetch<HOMEPAGE_QUERYResult>(
+      HOMEPAGE_QUERY,
+      {},
+      [CACHE_TAGS.homepage]
+    );
+    return validateHomepage(homepage);
+  });
+}
+
+/**
+ * Fetch the Information page content
+ * Create a single "Information" document in Sanity Studio
+ */
+export function getInformation(): Promise<QueryResult<Information>> {
+  return runDocumentQuery("information", async () => {
+    const information = await sanityFetch<INFORMATION_QUERYResult>(
+      INFORMATION_QUERY,
+      {},
+      [CACHE_TAGS.information]
+    );
+    return validateInformation(information);
+  });
+}
+
 /**
  * Fetch all projects ordered by the order field (ascending)
  */
-export async function getProjects(): Promise<Project[]> {
-  try {
-    const query = `*[_type == "project"] | order(order asc) {
-      _id,
-      title,
-      slug,
-      order,
-      slideshowImages[]{
-        _type,
-        asset,
-        alt,
-        startVisible,
-        videoType,
-        muxPlaybackId,
-        videoFile{
-          asset->{
-            _ref,
-            _type,
-            url,
-            originalFilename
-          }
-        },
-        poster{
-          asset,
-          alt
-        },
-        autoplay,
-        loop,
-        muted,
-        controls
-      }
-    }`;
-    return await sanityClient.fetch<Project[]>(query);
-  } catch (error) {
-    console.error("Error fetching projects:", error);
-    return [];
-  }
+export function getProjects(): Promise<ListQueryResult<Project[]>> {
+  return runQuery("projects", async () => {
+    const projects = await sanityFetch<PROJECTS_QUERYResult>(
+      PROJECTS_QUERY,
+      {},
+      [CACHE_TAGS.projects, CACHE_TAGS.projectTags]
+    );
+    return validateProjects(projects);
+  });
 }
 
 /**
  * Fetch a single project by slug
  */
-export async function getProjectBySlug(slug: string): Promise<Project | null> {
-  try {
-    const query = `*[_type == "project" && slug.current == $slug][0]{
-      _id,
-      title,
-      slug,
-      order,
-      slideshowImages[]{
-        _type,
-        asset,
-        alt,
-        startVisible,
-        videoType,
-        muxPlaybackId,
-        videoFile{
-          asset->{
-            _ref,
-            _type,
-            url,
-            originalFilename
-          }
-        },
-        poster{
-          asset,
-          alt
-        },
-        autoplay,
-        loop,
-        muted,
-        controls
-      }
-    }`;
-    return await sanityClient.fetch<Project | null>(query, { slug });
-  } catch (error) {
-    console.error(`Error fetching project with slug "${slug}":`, error);
-    return null;
-  }
+export function getProjectBySlug(slug: string): Promise<QueryResult<Project>> {
+  return runDocumentQuery(`project with slug "${slug}"`, async () => {
+    const project = await sanityFetch<PROJECT_BY_SLUG_QUERYResult>(
+      PROJECT_BY_SLUG_QUERY,
+      { slug },
+      // projects: also refreshed when a referenced Mux video asset finishes processing
+      [CACHE_TAGS.project(slug), CACHE_TAGS.projects, CACHE_TAGS.projectTags]
+    );
+    return validateProjectBySlug(project);
+  });
 }
 
 /**
  * Fetch a page by slug (static pages only; homepage uses getHomepage)
  */
-export async function getPageBySlug(slug: string): Promise<Page | null> {
-  try {
-    const query = `*[_type == "page" && slug.current == $slug][0]{
-      _id,
-      title,
-      slug,
-      description,
-      content
-    }`;
-    return await sanityClient.fetch<Page | null>(query, { slug });
-  } catch (error) {
-    console.error(`Error fetching page with slug "${slug}":`, error);
-    return null;
-  }
+export function getPageBySlug(slug: string): Promise<QueryResult<Page>> {
+  return runDocumentQuery(`page with slug "${slug}"`, async () => {
+    const page = await sanityFetch<PAGE_BY_SLUG_QUERYResult>(
+      PAGE_BY_SLUG_QUERY,
+      { slug },
+      [CACHE_TAGS.page(slug)]
+    );
+    return validatePage(page);
+  });
 }
 
 /**
- * Fetch all posts
- * Useful for blog listings, archives, etc.
+ * Fetch all pages (slugs only)
+ * Used to statically generate the /[slug] catch-all route
  */
-export async function getAllPosts(): Promise<Post[]> {
-  try {
-    const query = `*[_type == "post"] | order(publishedAt desc) {
-      _id,
-      title,
-      slug,
-      description,
-      featuredImage,
-      publishedAt
-    }`;
-    return await sanityClient.fetch<Post[]>(query);
-  } catch (error) {
-    console.error("Error fetching all posts:", error);
-    return [];
-  }
+export function getAllPages(): Promise<ListQueryResult<PageSummary[]>> {
+  return runQuery("all pages", async () => {
+    const pages = await sanityFetch<ALL_PAGES_QUERYResult>(ALL_PAGES_QUERY, {}, [CACHE_TAGS.pages]);
+    return validatePages(pages);
+  });
+}
+
+/**
+ * Fetch all posts, including content
+ * Useful for blog listings, archives, feeds, etc.
+ */
+export function getAllPosts(): Promise<ListQueryResult<Post[]>> {
+  return runQuery("all posts", async () => {
+    const posts = await sanityFetch<ALL_POSTS_QUERYResult>(ALL_POSTS_QUERY, {}, [CACHE_TAGS.posts]);
+    return validatePosts(posts);
+  });
+}
+
+/**
+ * Fetch one page of posts (1-based page number) plus the total post count
+ * Used by the paginated /posts index
+ */
+export function getPaginatedPosts(
+  page: number,
+  pageSize: number
+): Promise<ListQueryResult<{ posts: PostSummary[]; total: number }>> {
+  return runQuery(`posts page ${page}`, async () => {
+    const start = (page - 1) * pageSize;
+    const result = await sanityFetch<PAGINATED_POSTS_QUERYResult>(
+      PAGINATED_POSTS_QUERY,
+      { start, end: start + pageSize },
+      [CACHE_TAGS.posts]
+    );
+    return validatePaginatedPosts(result);
+  });
 }
 
 /**
  * Fetch a single post by slug
  */
-export async function getPostBySlug(slug: string): Promise<Post | null> {
-  try {
-    const query = `*[_type == "post" && slug.current == $slug][0]{
-      _id,
-      title,
-      slug,
-      description,
-      content,
-      featuredImage,
-      publishedAt
-    }`;
-    return await sanityClient.fetch<Post | null>(query, { slug });
-  } catch (error) {
-    console.error(`Error fetching post with slug "${slug}":`, error);
-    return null;
-  }
+export function getPostBySlug(slug: string): Promise<QueryResult<Post>> {
+  return runDocumentQuery(`post with slug "${slug}"`, async () => {
+    const post = await sanityFetch<POST_BY_SLUG_QUERYResult>(
+      POST_BY_SLUG_QUERY,
+      { slug },
+      [CACHE_TAGS.post(slug)]
+    );
+    return validatePost(post);
+  });
+}
+
+/**
+ * Fetch every published, routable document with its last update time
+ * Used by the sitemap (see DOCUMENT_ROUTES in lib/routes.ts)
+ */
+export function getSitemapDocuments(
+  types: string[]
+): Promise<ListQueryResult<SitemapDocument[]>> {
+  return runQuery("sitemap documents", async () => {
+    const documents = await sanityFetch<SITEMAP_DOCUMENTS_QUERYResult>(
+      SITEMAP_DOCUMENTS_QUERY,
+      { types },
+      [CACHE_TAGS.sitemap]
+    );
+    return validateSitemapDocuments(documents);
+  });
+}
+
+/**
+ * Search projects, posts and pages
+ * Used by the /search page and /api/search (the Nav command palette)
+ *
+ * @param terms - Match terms, from toSearchTerms (lib/search.ts)
+ * @param limit - Maximum number of results
+ */
+export function getSearchResults(
+  terms: string[],
+  limit: number
+): Promise<ListQueryResult<SearchResult[]>> {
+  return runQuery(`search results for "${terms.join(" ")}"`, async () => {
+    const results = await sanityFetch<SEARCH_QUERYResult>(
+      SEARCH_QUERY,
+      { terms, limit },
+      [CACHE_TAGS.projects, CACHE_TAGS.posts, CACHE_TAGS.pages]
+    );
+    return validateSearchResults(results);
+  });
+}
+
+/**
+ * Fetch the signed video playing a Mux playback ID ("not-found" for public or unknown IDs)
+ * Used by /api/mux/tokens, so tokens are only minted for videos the site shows
+ */
+export function getSignedMuxVideo(playbackId: string): Promise<QueryResult<SignedMuxVideo>> {
+  return runDocumentQuery(`signed video "${playbackId}"`, () =>
+    sanityFetch<SIGNED_MUX_VIDEO_QUERYResult>(
+      SIGNED_MUX_VIDEO_QUERY,
+      { playbackId },
+      [CACHE_TAGS.homepage, CACHE_TAGS.projects]
+    )
+  );
 }
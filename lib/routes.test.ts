@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isRoutableDocumentType, pathForDocument, safeRedirectPath } from "./routes";
+
+describe("safeRedirectPath", () => {
+  it("keeps same-site paths with their query and hash", () => {
+    assert.equal(safeRedirectPath("/projects?tag=film"), "/projects?tag=film");
+    assert.equal(safeRedirectPath("/posts/hello-world#top"), "/posts/hello-world#top");
+    assert.equal(safeRedirectPath("/"), "/");
+  });
+
+  it("falls back to / without a path", () => {
+    assert.equal(safeRedirectPath(null), "/");
+    assert.equal(safeRedirectPath(undefined), "/");
+    assert.equal(safeRedirectPath(""), "/");
+  });
+
+  it("rejects absolute and relative URLs", () => {
+    assert.equal(safeRedirectPath("http://evil.com"), "/");
+    assert.equal(safeRedirectPath("https://evil.com/projects"), "/");
+    assert.equal(safeRedirectPath("javascript:alert(1)"), "/");
+    assert.equal(safeRedirectPath("projects"), "/");
+  });
+
+  it("rejects protocol-relative URLs", () => {
+    assert.equal(safeRedirectPath("//evil.com"), "/");
+    assert.equal(safeRedirectPath("///evil.com"), "/");
+  });
+
+  it("rejects backslashes, also percent-encoded", () => {
+    assert.equal(safeRedirectPath("/\\evil.com"), "/");
+    assert.equal(safeRedirectPath("/\\/evil.com"), "/");
+    assert.equal(safeRedirectPath("/%5Cevil.com"), "/");
+    assert.equal(safeRedirectPath("/%5cevil.com"), "/");
+  });
+
+  it("rejects control characters", () => {
+    assert.equal(safeRedirectPath("/\t/evil.com"), "/");
+    assert.equal(safeRedirectPath("/\n/evil.com"), "/");
+    assert.equal(safeRedirectPath("/\u0000evil.com"), "/");
+    assert.equal(safeRedirectPath("/projects\u007f"), "/");
+  });
+});
+
+describe("pathForDocument", () => {
+  it("routes each document type", () => {
+    assert.equal(pathForDocument("homepage"), "/");
+    assert.equal(pathForDocument("information"), "/information");
+    assert.equal(pathForDocument("project", "harbour"), "/projects/harbour");
+    assert.equal(pathForDocument("post", "hello-world"), "/posts/hello-world");
+    assert.equal(pathForDocument("page", "about"), "/about");
+  });
+
+  it("returns null without a slug, for reserved slugs and for unknown types", () => {
+    assert.equal(pathForDocument("post", null), null);
+    assert.equal(pathForDocument("page", "Projects"), null);
+    assert.equal(pathForDocument("tag", "film"), null);
+    assert.equal(isRoutableDocumentType("toString"), false);
+  });
+});
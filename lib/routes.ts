@@ -0,0 +1,151 @@
+/**
+ * Route Registry
+ *
+ * Single source of truth for where each Sanity document type lives on the site.
+ * Used by the sitemap (and anything else that needs a document's public URL).
+ *
+ * CMS `page` documents are served from the catch-all /[slug] route, so their
+ * slugs must not collide with the app's own top-level paths.
+ */
+
+/** Site origin without trailing slash, from NEXT_PUBLIC_SITE_URL */
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "https://example.com").replace(/\/+$/, "");
+
+/**
+ * Absolute URL for a site path
+ *
+ * @example
+ * absoluteUrl("/projects") // "https://example.com/projects"
+ */
+export function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+/** First path segments reserved for app routes (never resolved as `page` slugs) */
+export const RESERVED_PAGE_SLUGS = [
+  "projects",
+  "information",
+  "posts",
+  "search",
+  "studio",
+  "api",
+  "robots.txt",
+  "sitemap.xml",
+  "sitemap",
+  "feed.xml",
+  "atom.xml",
+  "feed.json",
+] as const;
+
+/**
+ * Whether a slug is reserved for an app route
+ *
+ * @param slug - Page slug (e.g. from slug.current)
+ */
+export function isReservedPageSlug(slug: string): boolean {
+  return (RESERVED_PAGE_SLUGS as readonly string[]).includes(slug.toLowerCase());
+}
+
+export type SitemapChangefreq = "always" | "hourly" | "daily" | "weekly" | "monthly" | "yearly" | "never";
+
+interface DocumentRoute {
+  /** Site path for a document of this type, or null when it can't be routed (e.g. no slug) */
+  path: (slug?: string | null) => string | null;
+  changefreq: SitemapChangefreq;
+  priority: number;
+}
+
+/** Document types that have their own URL */
+export type RoutableDocumentType = "homepage" | "information" | "project" | "post" | "page";
+
+export const DOCUMENT_ROUTES: Record<RoutableDocumentType, DocumentRoute> = {
+  homepage: {
+    path: () => "/",
+    changefreq: "daily",
+    priority: 1.0,
+  },
+  information: {
+    path: () => "/information",
+    changefreq: "monthly",
+    priority: 0.6,
+  },
+  project: {
+    path: (slug) => (slug ? `/projects/${slug}` : null),
+    changefreq: "weekly",
+    priority: 0.8,
+  },
+  post: {
+    path: (slug) => (slug ? `/posts/${slug}` : null),
+    changefreq: "weekly",
+    priority: 0.7,
+  },
+  page: {
+    path: (slug) => (slug && !isReservedPageSlug(slug) ? `/${slug}` : null),
+    changefreq: "monthly",
+    priority: 0.5,
+  },
+};
+
+/** Listing pages whose freshness follows a document type (lastmod = newest document of that type) */
+export const INDEX_ROUTES: Array<{
+  path: string;
+  type: RoutableDocumentType;
+  changefreq: SitemapChangefreq;
+  priority: number;
+}> = [
+  { path: "/projects", type: "project", changefreq: "weekly", priority: 0.9 },
+  { path: "/posts", type: "post", changefreq: "weekly", priority: 0.6 },
+];
+
+export function isRoutableDocumentType(type: string): type is RoutableDocumentType {
+  // Own keys only: `in` would also accept prototype keys such as "toString"
+  return Object.hasOwn(DOCUMENT_ROUTES, type);
+}
+
+/**
+ * Site path for a document, or null if the type has no route or the slug is missing/reserved
+ *
+ * @example
+ * pathForDocument("post", "hello-world") // "/posts/hello-world"
+ */
+export function pathForDocument(type: string, slug?: string | null): string | null {
+  if (!isRoutableDocumentType(type)) return null;
+  return DOCUMENT_ROUTES[type].path(slug);
+}
+
+/** Placeholder origin to resolve redirect paths against; any other resulting origin is off-site */
+const REDIRECT_BASE = "http://redirect.invalid";
+
+/** Whether a string contains an ASCII control character (U+0000–U+001F or DEL) */
+function hasControlCharacter(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+/**
+ * A same-site path to redirect to, or "/" (guards against open redirects)
+ *
+ * Backslashes (also %5C) and control characters are rejected outright (browsers read
+ * "/\\evil.com" as protocol-relative); the rest must resolve to a path on the same origin.
+ *
+ * @param path - Untrusted path, e.g. from a ?redirect= query param
+ *
+ * @example
+ * safeRedirectPath("/projects?tag=film") // "/projects?tag=film"
+ * safeRedirectPath("/\\evil.com") // "/"
+ */
+export function safeRedirectPath(path: string | null | undefined): string {
+  if (!path || !path.startsWith("/") || hasControlCharacter(path)) return "/";
+  if (path.includes("\\") || /%5c/i.test(path)) return "/";
+  let url: URL;
+  try {
+    url = new URL(path, REDIRECT_BASE);
+  } catch {
+    return "/";
+  }
+  if (url.origin !== REDIRECT_BASE) return "/";
+  return `${url.pathname}${url.search}${url.hash}`;
+}
@@ -1,21 +1,46 @@
-import { createClient } from "@sanity/client";
+import { createClient, type ClientPerspective, type QueryParams } from "@sanity/client";
+import { createFixtureClient, FIXTURES_DIR } from "./fixtures";
+
+/** The part of the Sanity client the site uses, also implemented by the fixture client */
+export interface ContentClient {
+  fetch<R>(query: string, params?: QueryParams, options?: unknown): Promise<R>;
+  withConfig(config: { useCdn?: boolean; perspective?: ClientPerspective; token?: string }): ContentClient;
+}
 
 /**
  * Sanity Client Configuration
  * 
- * This client is used to fetch data from your Sanity CMS.
+ * This client is used to fetch published data from your Sanity CMS.
  * 
  * Environment variables required:
  * - NEXT_PUBLIC_SANITY_PROJECT_ID: Your Sanity project ID
  * - NEXT_PUBLIC_SANITY_DATASET: Your dataset name (usually "production")
  * - SANITY_API_READ_TOKEN: API token with read permissions
+ *
+ * With NEXT_PUBLIC_SANITY_FIXTURES set, both clients read a local dataset
+ * instead and need none of the above (see lib/fixtures.ts).
  * 
  * @see https://www.sanity.io/docs/js-client
  */
-export const sanityClient = createClient({
-  projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID || "",
-  dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
-  apiVersion: "2024-01-01", // Use a date that matches your Sanity project
-  useCdn: true, // Set to false if statically generating pages
+export const sanityClient: ContentClient = FIXTURES_DIR
+  ? createFixtureClient()
+  : createClient({
+      projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID || "",
+      dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
+      apiVersion: "2024-01-01", // Use a date that matches your Sanity project
+      useCdn: true, // Set to false if statically generating pages
+      token: process.env.SANITY_API_READ_TOKEN,
+      // With a token, this API version defaults to "raw" and would return drafts too
+      perspective: "published",
+    });
+
+/**
+ * Draft-aware client used while Next.js draft mode is on (see app/api/draft).
+ * Reads drafts over published documents (the "drafts" perspective, formerly
+ * "previewDrafts"), bypasses the CDN and always sends the read token.
+ */
+export const previewClient = sanityClient.withConfig({
+  useCdn: false,
+  perspective: "drafts",
   token: process.env.SANITY_API_READ_TOKEN,
 });
@@ -0,0 +1,84 @@
+import type { SearchResult } from "./queries";
+import { projectOverlayPath } from "./projects";
+import { pathForDocument } from "./routes";
+
+/**
+ * Site Search
+ *
+ * Shared by the /search page, /api/search and the Nav command palette:
+ * turns a visitor's query into GROQ match terms and groups the results
+ * of SEARCH_QUERY (lib/queries.ts) by document type.
+ */
+
+/** Shorter queries are not searched (every document would match) */
+export const MIN_QUERY_LENGTH = 2;
+/** Longer queries are cut off */
+export const MAX_QUERY_LENGTH = 100;
+/** Results per search (all types together) */
+export const SEARCH_LIMIT = 30;
+
+/** Result groups in display order */
+const SEARCH_GROUPS = [
+  { type: "project", title: "Projects" },
+  { type: "post", title: "Posts" },
+  { type: "page", title: "Pages" },
+] as const;
+
+export type SearchResultType = (typeof SEARCH_GROUPS)[number]["type"];
+
+export interface SearchHit {
+  id: string;
+  title: string;
+  /** Site path: projects open in the projects grid overlay */
+  href: string;
+  excerpt: string | null;
+}
+
+export interface SearchGroup {
+  type: SearchResultType;
+  title: string;
+  hits: SearchHit[];
+}
+
+/** JSON body of /api/search */
+export interface SearchResponse {
+  query: string;
+  groups: SearchGroup[];
+}
+
+/**
+ * GROQ match terms for a query: one prefix term per word, so results update while typing.
+ * Characters with a meaning in match patterns are dropped; an empty list means "don't search".
+ *
+ * @example
+ * toSearchTerms("Harbour li") // ["Harbour*", "li*"]
+ */
+export function toSearchTerms(query: string): string[] {
+  const cleaned = query.slice(0, MAX_QUERY_LENGTH).trim();
+  if (cleaned.length < MIN_QUERY_LENGTH) return [];
+  return cleaned
+    .split(/\s+/)
+    .map((word) => word.replace(/[*"\\]/g, ""))
+    .filter(Boolean)
+    .map((word) => `${word}*`);
+}
+
+/** Site path of a search result */
+function searchResultHref(result: SearchResult): string | null {
+  if (!result.slug) return null;
+  if (result._type === "project") return projectOverlayPath(result.slug);
+  return pathForDocument(result._type, result.slug);
+}
+
+/** Results grouped by type (empty groups left out), keeping their order within each group */
+export function groupSearchResults(results: SearchResult[]): SearchGroup[] {
+  return SEARCH_GROUPS.map(({ type, title }) => ({
+    type,
+    title,
+    hits: results.flatMap((result): SearchHit[] => {
+      const href = result._type === type ? searchResultHref(result) : null;
+      if (!href) return [];
+      return [{ id: result._id, title: result.title || "Untitled", href, excerpt: result.excerpt }];
+    }),
+  })).filter((group) => group.hits.length > 0);
+}
@@ -3,9 +3,9 @@ import { urlForImage } from "./image";
 import type { SanityImageSource } from "@sanity/image-url/lib/types/types";
 
 interface BuildMetadataParams {
-  title?: string;
-  description?: string;
-  image?: SanityImageSource;
+  title?: string | null;
+  description?: string | null;
+  image?: SanityImageSource | null;
   siteTitle?: string;
   siteDescription?: string;
   defaultOgImage?: SanityImageSource;
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  chunkSitemapEntries,
+  MAX_SITEMAP_BYTES,
+  MAX_URLS_PER_SITEMAP,
+  renderUrlset,
+  type SitemapEntry,
+} from "./sitemap";
+
+const BASE = "https://example.com/";
+
+/** Entry whose <loc> is the base URL plus `padding` ASCII characters */
+function entry(padding = 0): SitemapEntry {
+  return { loc: `${BASE}${"a".repeat(padding)}` };
+}
+
+/** UTF-8 size of a chunk rendered as a <urlset> */
+function renderedBytes(chunk: SitemapEntry[]): number {
+  return Buffer.byteLength(renderUrlset(chunk));
+}
+
+describe("chunkSitemapEntries", () => {
+  it("returns one empty chunk for no entries (the sitemap still renders)", () => {
+    assert.deepEqual(chunkSitemapEntries([]), [[]]);
+  });
+
+  it("keeps small sitemaps in one chunk", () => {
+    const entries = [entry(1), entry(2), entry(3)];
+    assert.deepEqual(chunkSitemapEntries(entries), [entries]);
+  });
+
+  it("splits at MAX_URLS_PER_SITEMAP URLs", () => {
+    const entries = Array.from({ length: MAX_URLS_PER_SITEMAP + 1 }, (_, i) => ({ loc: `${BASE}${i}` }));
+    const chunks = chunkSitemapEntries(entries);
+
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.length),
+      [MAX_URLS_PER_SITEMAP, 1]
+    );
+    assert.equal(chunks[1][0], entries[MAX_URLS_PER_SITEMAP]);
+  });
+
+  describe("byte limit", () => {
+    // Two entries that together render to exactly MAX_SITEMAP_BYTES
+    const fixedBytes = renderedBytes([entry(), entry()]);
+    const padding = MAX_SITEMAP_BYTES - fixedBytes;
+    const first = entry(Math.floor(padding / 2));
+    const second = entry(Math.ceil(padding / 2));
+
+    it("keeps entries that fill the limit exactly in one chunk", () => {
+      assert.equal(renderedBytes([first, second]), MAX_SITEMAP_BYTES);
+      assert.deepEqual(chunkSitemapEntries([first, second]), [[first, second]]);
+    });
+
+    it("starts a new chunk when an entry would pass the limit", () => {
+      const longer = entry(Math.ceil(padding / 2) + 1);
+      const chunks = chunkSitemapEntries([first, longer]);
+
+      assert.deepEqual(chunks, [[first], [longer]]);
+      chunks.forEach((chunk) => assert.ok(renderedBytes(chunk) <= MAX_SITEMAP_BYTES));
+    });
+
+    it("counts UTF-8 bytes, not characters", () => {
+      const accented = { loc: `${BASE}${"é".repeat(Math.ceil(padding / 4) + 1)}` };
+      assert.deepEqual(chunkSitemapEntries([first, accented]), [[first], [accented]]);
+    });
+
+    it("gives an entry larger than the limit a chunk of its own", () => {
+      const huge = entry(MAX_SITEMAP_BYTES);
+      const small = entry(1);
+      assert.deepEqual(chunkSitemapEntries([small, huge, small]), [[small], [huge], [small]]);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { getSitemapDocuments, unwrapQuery } from "./queries";
+import {
+  DOCUMENT_ROUTES,
+  INDEX_ROUTES,
+  type SitemapChangefreq,
+  absoluteUrl,
+  pathForDocument,
+} from "./routes";
+import { escapeXml } from "./utils";
+
+/**
+ * Sitemap Builder
+ *
+ * Builds sitemap entries from the route registry in lib/routes.ts and renders
+ * them as a <urlset> (with Google image extensions) or, past the protocol's
+ * per-file limits (URL count or file size), as a <sitemapindex> pointing at
+ * /sitemap/[n].xml chunks.
+ *
+ * @see https://www.sitemaps.org/protocol.html
+ * @see https://developers.google.com/search/docs/crawling-indexing/sitemaps/image-sitemaps
+ */
+
+/** Protocol limit: URLs per sitemap file (and sitemaps per index) */
+export const MAX_URLS_PER_SITEMAP = 50_000;
+
+/** Protocol limit: uncompressed bytes per sitemap file (50 MiB) */
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+/** Google limit: images per <url> */
+export const MAX_IMAGES_PER_URL = 1_000;
+
+export interface SitemapEntry {
+  /** Absolute URL */
+  loc: string;
+  /** ISO timestamp (document _updatedAt) */
+  lastmod?: string;
+  changefreq?: SitemapChangefreq;
+  priority?: number;
+  /** Absolute image URLs for the image sitemap extension */
+  images?: string[];
+}
+
+/** Newest of a list of ISO timestamps, or undefined */
+function latest(dates: Array<string | undefined>): string | undefined {
+  return dates.reduce<string | undefined>(
+    (max, date) => (date && (!max || date > max) ? date : max),
+    undefined
+  );
+}
+
+/**
+ * Fetch all sitemap entries: one per routable document plus listing pages.
+ * Documents without a resolvable path (missing or reserved slug) are skipped.
+ */
+export async function getSitemapEntries(): Promise<SitemapEntry[]> {
+  const documents = unwrapQuery(await getSitemapDocuments(Object.keys(DOCUMENT_ROUTES)));
+  const entries = new Map<string, SitemapEntry>();
+
+  // The homepage is always listed, even before a homepage document exists
+  entries.set("/", {
+    loc: absoluteUrl("/"),
+    changefreq: DOCUMENT_ROUTES.homepage.changefreq,
+    priority: DOCUMENT_ROUTES.homepage.priority,
+  });
+
+  for (const index of INDEX_ROUTES) {
+    entries.set(index.path, {
+      loc: absoluteUrl(index.path),
+      lastmod: latest(documents.filter((doc) => doc._type === index.type).map((doc) => doc._updatedAt)),
+      changefreq: index.changefreq,
+      priority: index.priority,
+    });
+  }
+
+  for (const doc of documents) {
+    const path = pathForDocument(doc._type, doc.slug);
+    if (!path) continue;
+    const route = DOCUMENT_ROUTES[doc._type as keyof typeof DOCUMENT_ROUTES];
+    const existing = entries.get(path);
+    entries.set(path, {
+      loc: absoluteUrl(path),
+      lastmod: latest([existing?.lastmod, doc._updatedAt]),
+      changefreq: route.changefreq,
+      priority: route.priority,
+      images:
+        "images" in doc
+          ? doc.images?.filter((url): url is string => !!url).slice(0, MAX_IMAGES_PER_URL)
+          : undefined,
+    });
+  }
+
+  return Array.from(entries.values());
+}
+
+const URLSET_OPEN = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">`;
+const URLSET_CLOSE = "</urlset>";
+
+/** Render one <url> element */
+function renderUrl(entry: SitemapEntry): string {
+  const lines = [`    <loc>${escapeXml(entry.loc)}</loc>`];
+  if (entry.lastmod) lines.push(`    <lastmod>${escapeXml(entry.lastmod)}</lastmod>`);
+  if (entry.changefreq) lines.push(`    <changefreq>${entry.changefreq}</changefreq>`);
+  if (entry.priority != null) lines.push(`    <priority>${entry.priority.toFixed(1)}</priority>`);
+  for (const image of entry.images ?? []) {
+    lines.push(`    <image:image>\n      <image:loc>${escapeXml(image)}</image:loc>\n    </image:image>`);
+  }
+  return `  <url>\n${lines.join("\n")}\n  </url>`;
+}
+
+const encoder = new TextEncoder();
+
+/** UTF-8 size of a string in bytes */
+function byteLength(value: string): number {
+  return encoder.encode(value).length;
+}
+
+/**
+ * Split entries into protocol-sized chunks (always at least one chunk): a chunk ends before it
+ * passes MAX_URLS_PER_SITEMAP URLs or, rendered, MAX_SITEMAP_BYTES (image entries add up fast)
+ */
+export function chunkSitemapEntries(entries: SitemapEntry[]): SitemapEntry[][] {
+  // The <urlset> wrapper (as renderUrlset() writes it) plus the newline before each <url>
+  const wrapperBytes = byteLength(`${URLSET_OPEN}\n${URLSET_CLOSE}`);
+  const chunks: SitemapEntry[][] = [];
+  let chunk: SitemapEntry[] = [];
+  let chunkBytes = wrapperBytes;
+
+  for (const entry of entries) {
+    const entryBytes = byteLength(renderUrl(entry)) + 1;
+    const isFull =
+      chunk.length >= MAX_URLS_PER_SITEMAP || chunkBytes + entryBytes > MAX_SITEMAP_BYTES;
+    if (chunk.length > 0 && isFull) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkBytes = wrapperBytes;
+    }
+    chunk.push(entry);
+    chunkBytes += entryBytes;
+  }
+  chunks.push(chunk);
+  return chunks;
+}
+
+/** Render a <urlset> document */
+export function renderUrlset(entries: SitemapEntry[]): string {
+  return `${URLSET_OPEN}
+${entries.map(renderUrl).join("\n")}
+${URLSET_CLOSE}`;
+}
+
+/** Render a <sitemapindex> pointing at one /sitemap/[n].xml per chunk */
+export function renderSitemapIndex(chunks: SitemapEntry[][]): string {
+  const sitemaps = chunks
+    .map((chunk, i) => {
+      const lastmod = latest(chunk.map((entry) => entry.lastmod));
+      const lines = [`    <loc>${escapeXml(absoluteUrl(`/sitemap/${i}.xml`))}</loc>`];
+      if (lastmod) lines.push(`    <lastmod>${escapeXml(lastmod)}</lastmod>`);
+      return `  <sitemap>\n${lines.join("\n")}\n  </sitemap>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>`;
+}
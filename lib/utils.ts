@@ -44,3 +44,16 @@ export function truncate(text: string, length: number, suffix: string = "..."):
   return text.slice(0, length) + suffix;
 }
 
+/**
+ * Escapes text for use in XML/HTML element content and attribute values
+ *
+ * @param text - Raw text
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import type {
+  ALL_POSTS_QUERYResult,
+  GLOBAL_SETTINGS_QUERYResult,
+  HOMEPAGE_QUERYResult,
+  POST_BY_SLUG_QUERYResult,
+  PROJECTS_QUERYResult,
+} from "@/sanity/sanity.types";
+import {
+  getContentReport,
+  validateGlobalSettings,
+  validateHomepage,
+  validatePaginatedPosts,
+  validatePost,
+  validatePosts,
+  validateProjects,
+} from "./validation";
+
+const image = { asset: { _id: "image-abc-800x600-jpg" } };
+const muxVideo = { videoType: "mux", muxPlaybackId: "playback123" };
+const fileVideo = { videoType: "file", videoFile: { asset: { _id: "file-abc-mp4" } } };
+
+/** Report entries for one document */
+function issuesFor(documentId: string) {
+  return getContentReport().filter((issue) => issue.documentId === documentId);
+}
+
+// Validation logs each issue; keep the test output readable
+before(() => mock.method(console, "warn", () => {}));
+after(() => mock.restoreAll());
+
+describe("validateProjects", () => {
+  const project = {
+    _id: "project-a",
+    title: [],
+    slug: { current: "a" },
+    slideshowImages: [
+      { _key: "1", _type: "image", ...image },
+      { _key: "2", _type: "image", asset: null },
+      { _key: "3", _type: "video", ...muxVideo },
+      { _key: "4", _type: "video", videoType: "mux", muxPlaybackId: " " },
+      { _key: "5", _type: "video", ...fileVideo },
+      { _key: "6", _type: "video", videoType: "file", videoFile: null },
+      { _key: "7", _type: "gallery" },
+    ],
+    tags: [{ title: "Film", slug: { current: "film" } }, null, { title: "No slug", slug: null }],
+  };
+
+  it("keeps playable slides and usable tags", () => {
+    const [result] = validateProjects([project] as unknown as PROJECTS_QUERYResult);
+
+    assert.deepEqual(
+      result.slideshowImages?.map((slide) => slide._key),
+      ["1", "3", "5"]
+    );
+    assert.deepEqual(result.tags, [{ title: "Film", slug: { current: "film" } }]);
+  });
+
+  it("reports each dropped item with its field path", () => {
+    validateProjects([project] as unknown as PROJECTS_QUERYResult);
+    const issues = issuesFor("project-a");
+
+    assert.deepEqual(
+      issues.map(({ path, action }) => [path, action]),
+      [
+        ["slideshowImages[1].asset", "dropped"],
+        ["slideshowImages[3].muxPlaybackId", "dropped"],
+        ["slideshowImages[5].videoFile", "dropped"],
+        ["slideshowImages[6]", "dropped"],
+        ["tags[1]", "dropped"],
+        ["tags[2].slug", "dropped"],
+      ]
+    );
+    assert.ok(issues.every((issue) => issue.query === "projects" && issue.documentType === "project"));
+  });
+
+  it("replaces a document's report entry when it is validated again", () => {
+    const fixed = { ...project, _id: "project-b", slideshowImages: [], tags: [] };
+    validateProjects([{ ...project, _id: "project-b" }] as unknown as PROJECTS_QUERYResult);
+    assert.ok(issuesFor("project-b").length > 0);
+
+    validateProjects([fixed] as unknown as PROJECTS_QUERYResult);
+    assert.deepEqual(issuesFor("project-b"), []);
+  });
+
+  it("drops documents without an _id", () => {
+    const result = validateProjects([{ ...project, _id: undefined }] as unknown as PROJECTS_QUERYResult);
+
+    assert.deepEqual(result, []);
+    assert.ok(issuesFor("unknown").some((issue) => issue.path === "_id" && issue.query === "projects"));
+  });
+});
+
+describe("validateHomepage", () => {
+  it("falls back to the image for a broken video, and drops items with neither", () => {
+    const homepage = {
+      _id: "homepage",
+      items: [
+        { _key: "1", image, video: null },
+        { _key: "2", image, video: muxVideo },
+        { _key: "3", image, video: { videoType: "mux", muxPlaybackId: null } },
+        { _key: "4", image: null, video: { videoType: "file", videoFile: null } },
+        { _key: "5", image: null, video: null },
+      ],
+    } as unknown as HOMEPAGE_QUERYResult;
+
+    const items = validateHomepage(homepage)?.items ?? [];
+
+    assert.deepEqual(
+      items.map((item) => [item._key, item.video ? "video" : "image"]),
+      [
+        ["1", "image"],
+        ["2", "video"],
+        ["3", "image"],
+      ]
+    );
+    assert.deepEqual(
+      issuesFor("homepage").map(({ path, action }) => [path, action]),
+      [
+        ["items[2].video.muxPlaybackId", "repaired"],
+        ["items[3].video.videoFile", "dropped"],
+        ["items[4].image.asset", "dropped"],
+      ]
+    );
+  });
+
+  it("passes a missing homepage through", () => {
+    assert.equal(validateHomepage(null), null);
+  });
+});
+
+describe("validateGlobalSettings", () => {
+  it("drops navigation links without a label or href", () => {
+    const settings = {
+      _id: "globalSettings",
+      navigation: {
+        items: [
+          { label: "Work", href: "/projects" },
+          { label: "", href: "/posts" },
+          { label: "Info", href: null },
+        ],
+      },
+    } as unknown as GLOBAL_SETTINGS_QUERYResult;
+
+    assert.deepEqual(validateGlobalSettings(settings)?.navigation?.items, [
+      { label: "Work", href: "/projects" },
+    ]);
+    assert.deepEqual(
+      issuesFor("globalSettings").map(({ path }) => path),
+      ["navigation.items[1].label", "navigation.items[2].href"]
+    );
+  });
+});
+
+describe("validatePosts", () => {
+  const posts = [
+    { _id: "post-a", slug: { current: "a" } },
+    { _id: "post-b", slug: { current: "" } },
+    { _id: "post-c", slug: null },
+  ] as unknown as ALL_POSTS_QUERYResult;
+
+  it("lists only posts with a slug", () => {
+    assert.deepEqual(
+      validatePosts(posts).map((post) => post._id),
+      ["post-a"]
+    );
+    assert.deepEqual(
+      [...issuesFor("post-b"), ...issuesFor("post-c")].map(({ path, query }) => [path, query]),
+      [
+        ["slug.current", "allPosts"],
+        ["slug", "allPosts"],
+      ]
+    );
+  });
+
+  it("keeps the total of a paginated result, defaulting to zero", () => {
+    assert.equal(validatePaginatedPosts({ posts, total: 3 }).total, 3);
+    assert.deepEqual(validatePaginatedPosts(null), { posts: [], total: 0 });
+  });
+});
+
+describe("validatePost", () => {
+  it("clears a featured image without an asset", () => {
+    const post = { _id: "post-d", featuredImage: { asset: null } } as unknown as POST_BY_SLUG_QUERYResult;
+
+    assert.equal(validatePost(post)?.featuredImage, null);
+    assert.deepEqual(
+      issuesFor("post-d").map(({ path, action }) => [path, action]),
+      [["featuredImage.asset", "repaired"]]
+    );
+  });
+
+  it("keeps a valid featured image", () => {
+    const post = { _id: "post-e", featuredImage: image } as unknown as POST_BY_SLUG_QUERYResult;
+    assert.deepEqual(validatePost(post)?.featuredImage, image);
+  });
+});
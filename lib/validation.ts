@@ -0,0 +1,294 @@
+import { z } from "zod";
+import type {
+  ALL_PAGES_QUERYResult,
+  ALL_POSTS_QUERYResult,
+  GLOBAL_SETTINGS_QUERYResult,
+  HOMEPAGE_QUERYResult,
+  INFORMATION_QUERYResult,
+  PAGE_BY_SLUG_QUERYResult,
+  PAGINATED_POSTS_QUERYResult,
+  POST_BY_SLUG_QUERYResult,
+  PROJECTS_QUERYResult,
+  SEARCH_QUERYResult,
+  SITEMAP_DOCUMENTS_QUERYResult,
+} from "@/sanity/sanity.types";
+
+/**
+ * CMS Response Validation
+ *
+ * Every query in lib/queries.ts passes its result through one of the validators
+ * below before it reaches a component. Items that cannot render (a video slide
+ * without a playback ID or file, a nav link without an href, ...) are dropped or
+ * repaired, a structured warning is logged, and the problem is kept in a report
+ * (see getContentReport and /api/content-report).
+ */
+
+export interface ContentIssue {
+  /** Query the document came from, e.g. "projects" */
+  query: string;
+  documentId: string;
+  documentType: string;
+  /** Field path inside the document, e.g. "slideshowImages[2].videoFile.asset" */
+  path: string;
+  message: string;
+  /** What was done about it: the item was removed, or the field was cleared */
+  action: "dropped" | "repaired";
+}
+
+/** Latest issues per query + document; re-validating a document replaces its entry */
+const report = new Map<string, ContentIssue[]>();
+
+/** All content problems found by the latest validation of each document */
+export function getContentReport(): ContentIssue[] {
+  return Array.from(report.values()).flat();
+}
+
+/** Format a zod issue path, e.g. ["items", 2, "video"] as "items[2].video" */
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === "number" ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+    ""
+  );
+}
+
+/** Collects issues while one document is validated, then records them in the report */
+class DocumentValidation {
+  private issues: ContentIssue[] = [];
+
+  constructor(
+    private query: string,
+    private documentId: string,
+    private documentType: string
+  ) {}
+
+  /**
+   * Check value against schema. On failure, log one issue at basePath + the first failing field.
+   * @returns Whether the value is valid
+   */
+  check(
+    schema: z.ZodTypeAny,
+    value: unknown,
+    basePath: string,
+    action: ContentIssue["action"]
+  ): boolean {
+    const result = schema.safeParse(value);
+    if (result.success) return true;
+    const [first] = result.error.issues;
+    const path = formatPath([basePath, ...(first?.path ?? [])].filter((p) => p !== ""));
+    this.add(path, first?.message ?? "Invalid value", action);
+    return false;
+  }
+
+  /** Keep only the array items that pass schema; dropped items are reported by index */
+  filter<T>(items: T[] | null | undefined, schema: z.ZodTypeAny, path: string): T[] {
+    return (items ?? []).filter((item, index) =>
+      this.check(schema, item, `${path}[${index}]`, "dropped")
+    );
+  }
+
+  add(path: string, message: string, action: ContentIssue["action"]) {
+    const issue: ContentIssue = {
+      query: this.query,
+      documentId: this.documentId,
+      documentType: this.documentType,
+      path,
+      message,
+      action,
+    };
+    console.warn("Invalid CMS content:", issue);
+    this.issues.push(issue);
+  }
+
+  /** Store this document's issues in the report (clearing it when the document is now valid) */
+  done() {
+    const key = `${this.query}:${this.documentId}`;
+    if (this.issues.length > 0) report.set(key, this.issues);
+    else report.delete(key);
+  }
+}
+
+/**
+ * Validate one document: run check with a collector, record the outcome.
+ * Documents without an _id (malformed responses) are rejected outright.
+ */
+function validateDocument<T extends { _id: string }>(
+  query: string,
+  documentType: string,
+  doc: T | null | undefined,
+  check: (doc: T, validation: DocumentValidation) => T | null
+): T | null {
+  if (!doc) return null;
+  if (typeof doc._id !== "string") {
+    const validation = new DocumentValidation(query, "unknown", documentType);
+    validation.add("_id", "Document has no _id", "dropped");
+    validation.done();
+    return null;
+  }
+  const validation = new DocumentValidation(query, doc._id, documentType);
+  const result = check(doc, validation);
+  validation.done();
+  return result;
+}
+
+const nonEmptyString = z.string().trim().min(1);
+/** Image with an uploaded asset, dereferenced by imageFields (project slide, homepage image, post image) */
+const imageSchema = z.object({ asset: z.object({ _id: nonEmptyString }) });
+
+/** Video with what its source type needs to play */
+const videoSchema = z.discriminatedUnion("videoType", [
+  z.object({ videoType: z.literal("mux"), muxPlaybackId: nonEmptyString }),
+  z.object({
+    videoType: z.literal("file"),
+    videoFile: z.object({ asset: z.object({ _id: nonEmptyString }) }),
+  }),
+]);
+
+const slugSchema = z.object({ current: nonEmptyString });
+
+const navigationItemSchema = z.object({ label: nonEmptyString, href: nonEmptyString });
+
+const linkSchema = z.object({ url: nonEmptyString });
+
+type Project = PROJECTS_QUERYResult[number];
+type ProjectSlide = NonNullable<Project["slideshowImages"]>[number];
+
+/** Tags the filter bar can link to (a deleted tag dereferences to null) */
+const projectTagSchema = z.object({ title: nonEmptyString, slug: slugSchema });
+
+/**
+ * Project slides: image slides need an asset, video slides a playable source.
+ * Tags need a title and slug.
+ */
+function validateProject(query: string, project: Project): Project | null {
+  return validateDocument(query, "project", project, (doc, validation) => {
+    const slideshowImages = (doc.slideshowImages ?? []).filter((slide: ProjectSlide, index) => {
+      const path = `slideshowImages[${index}]`;
+      if (slide?._type === "image") return validation.check(imageSchema, slide, path, "dropped");
+      if (slide?._type === "video") return validation.check(videoSchema, slide, path, "dropped");
+      validation.add(path, "Unknown slide type", "dropped");
+      return false;
+    });
+    const tags = validation.filter(doc.tags, projectTagSchema, "tags");
+    return { ...doc, slideshowImages, tags };
+  });
+}
+
+export function validateProjects(projects: PROJECTS_QUERYResult | null): PROJECTS_QUERYResult {
+  return (projects ?? []).flatMap((project) => validateProject("projects", project) ?? []);
+}
+
+export function validateProjectBySlug(project: Project | null): Project | null {
+  return project ? validateProject("projectBySlug", project) : null;
+}
+
+/**
+ * Homepage items: a broken video falls back to the item's image (repaired);
+ * an item with neither a usable video nor an image is dropped
+ */
+export function validateHomepage(homepage: HOMEPAGE_QUERYResult): HOMEPAGE_QUERYResult {
+  return validateDocument("homepage", "homepage", homepage, (doc, validation) => {
+    const items = (doc.items ?? []).flatMap((item, index) => {
+      const path = `items[${index}]`;
+      const hasImage = item.image != null && imageSchema.safeParse(item.image).success;
+      if (item.video) {
+        const action = hasImage ? "repaired" : "dropped";
+        if (validation.check(videoSchema, item.video, `${path}.video`, action)) return [item];
+        return hasImage ? [{ ...item, video: null }] : [];
+      }
+      const image = item.image ?? {};
+      return validation.check(imageSchema, image, `${path}.image`, "dropped") ? [item] : [];
+    });
+    return { ...doc, items };
+  });
+}
+
+/** Navigation links need both a label and an href */
+export function validateGlobalSettings(
+  settings: GLOBAL_SETTINGS_QUERYResult
+): GLOBAL_SETTINGS_QUERYResult {
+  return validateDocument("globalSettings", "globalSettings", settings, (doc, validation) => {
+    if (!doc.navigation?.items) return doc;
+    const items = validation.filter(doc.navigation.items, navigationItemSchema, "navigation.items");
+    return { ...doc, navigation: { ...doc.navigation, items } };
+  });
+}
+
+/** Contact and representation links need a URL */
+export function validateInformation(information: INFORMATION_QUERYResult): INFORMATION_QUERYResult {
+  return validateDocument("information", "information", information, (doc, validation) => {
+    const contact = doc.contact && {
+      ...doc.contact,
+      socialLinks: validation.filter(doc.contact.socialLinks, linkSchema, "contact.socialLinks"),
+    };
+    return { ...doc, contact };
+  });
+}
+
+/** Pages and posts are only listed (and linked) when they have a slug */
+function validateSlugged<T extends { _id: string; slug: { current?: string } | null }>(
+  query: string,
+  documentType: string,
+  docs: T[] | null
+): T[] {
+  return (docs ?? []).flatMap(
+    (doc) =>
+      validateDocument(query, documentType, doc, (valid, validation) =>
+        validation.check(slugSchema, valid.slug, "slug", "dropped") ? valid : null
+      ) ?? []
+  );
+}
+
+export function validatePages(pages: ALL_PAGES_QUERYResult | null): ALL_PAGES_QUERYResult {
+  return validateSlugged("allPages", "page", pages);
+}
+
+/** A single page only needs its _id; empty content renders as an empty page */
+export function validatePage(page: PAGE_BY_SLUG_QUERYResult): PAGE_BY_SLUG_QUERYResult {
+  return validateDocument("pageBySlug", "page", page, (doc) => doc);
+}
+
+export function validatePosts(posts: ALL_POSTS_QUERYResult | null): ALL_POSTS_QUERYResult {
+  return validateSlugged("allPosts", "post", posts);
+}
+
+export function validatePaginatedPosts(
+  result: PAGINATED_POSTS_QUERYResult | null
+): PAGINATED_POSTS_QUERYResult {
+  return {
+    posts: validateSlugged("paginatedPosts", "post", result?.posts ?? []),
+    total: result?.total ?? 0,
+  };
+}
+
+/** A featured image without an asset is cleared so the image URL builder isn't handed one */
+export function validatePost(post: POST_BY_SLUG_QUERYResult): POST_BY_SLUG_QUERYResult {
+  return validateDocument("postBySlug", "post", post, (doc, validation) => {
+    if (!doc.featuredImage) return doc;
+    return validation.check(imageSchema, doc.featuredImage, "featuredImage", "repaired")
+      ? doc
+      : { ...doc, featuredImage: null };
+  });
+}
+
+/** Sitemap entries need a document type and update time */
+export function validateSitemapDocuments(
+  documents: SITEMAP_DOCUMENTS_QUERYResult | null
+): SITEMAP_DOCUMENTS_QUERYResult {
+  const documentSchema = z.object({ _type: nonEmptyString, _updatedAt: nonEmptyString });
+  return (documents ?? []).flatMap(
+    (doc) =>
+      validateDocument("sitemap", doc._type ?? "unknown", doc, (valid, validation) =>
+        validation.check(documentSchema, valid, "", "dropped") ? valid : null
+      ) ?? []
+  );
+}
+
+/** Search results need a slug to link to */
+export function validateSearchResults(results: SEARCH_QUERYResult | null): SEARCH_QUERYResult {
+  return (results ?? []).flatMap(
+    (result) =>
+      validateDocument("search", result._type, result, (valid, validation) =>
+        validation.check(nonEmptyString, valid.slug, "slug", "dropped") ? valid : null
+      ) ?? []
+  );
+}
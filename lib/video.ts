@@ -0,0 +1,89 @@
+/**
+ * Video Posters and Previews
+ *
+ * URLs of the images Mux derives from a video (image.mux.com): the default poster
+ * of a Mux video without a poster image, and the animated previews of grid cells;
+ * and of its stream (stream.mux.com), preloaded by MediaSlideshow.
+ * Plus the Mux asset data stored by Studio uploads (see videoFields in lib/fragments.ts).
+ */
+
+const MUX_IMAGE_ORIGIN = "https://image.mux.com";
+const MUX_STREAM_ORIGIN = "https://stream.mux.com";
+
+/** Width of Mux default posters, like the Sanity posters in OptimizedMedia */
+export const MUX_POSTER_WIDTH = 1920;
+
+/** Length of animated previews, in seconds */
+const PREVIEW_DURATION = 4;
+
+/**
+ * Still frame of a Mux video
+ *
+ * @param time - Second of the frame (Mux picks the middle of the video when unset)
+ * @param token - Thumbnail token of a signed video; its parameters are in the token, so time and width are ignored
+ *
+ * @example
+ * muxThumbnailUrl("abc123", { time: 2, width: 1920 })
+ * // "https://image.mux.com/abc123/thumbnail.webp?time=2&width=1920"
+ */
+export function muxThumbnailUrl(
+  playbackId: string,
+  { time, width, token }: { time?: number | null; width?: number; token?: string } = {}
+): string {
+  const params = new URLSearchParams();
+  if (token) {
+    params.set("token", token);
+  } else {
+    if (time != null) params.set("time", String(time));
+    if (width) params.set("width", String(width));
+  }
+  const query = params.toString();
+  return `${MUX_IMAGE_ORIGIN}/${playbackId}/thumbnail.webp${query ? `?${query}` : ""}`;
+}
+
+/**
+ * HLS manifest of a Mux video (fetched ahead of the player to warm the connection and CDN)
+ *
+ * @param token - Playback token of a signed video
+ */
+export function muxStreamUrl(playbackId: string, { token }: { token?: string } = {}): string {
+  const query = token ? `?${new URLSearchParams({ token })}` : "";
+  return `${MUX_STREAM_ORIGIN}/${playbackId}.m3u8${query}`;
+}
+
+/**
+ * Short looping animated WebP of a public Mux video
+ *
+ * @param start - Second the preview starts at (from the beginning when past the end)
+ * @param duration - Video length in seconds, when known; the preview stops there
+ * @param width - Width in px (Mux allows up to 640)
+ */
+export function muxAnimatedPreviewUrl(
+  playbackId: string,
+  {
+    start,
+    duration,
+    width = 320,
+  }: { start?: number | null; duration?: number | null; width?: number } = {}
+): string {
+  const from = duration && (start ?? 0) >= duration ? 0 : start ?? 0;
+  const to = duration ? Math.min(from + PREVIEW_DURATION, duration) : from + PREVIEW_DURATION;
+  const params = new URLSearchParams({
+    start: String(from),
+    end: String(to),
+    width: String(width),
+    fps: "15",
+  });
+  return `${MUX_IMAGE_ORIGIN}/${playbackId}/animated.webp?${params}`;
+}
+
+/**
+ * Width / height of a Mux asset aspect ratio
+ *
+ * @example
+ * parseMuxAspectRatio("16:9") // 1.777…
+ */
+export function parseMuxAspectRatio(value: string | null | undefined): number | undefined {
+  const [width, height] = (value ?? "").split(":").map(Number);
+  return width > 0 && height > 0 ? width / height : undefined;
+}
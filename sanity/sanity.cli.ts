@@ -0,0 +1,13 @@
+import { defineCliConfig } from "sanity/cli";
+
+/**
+ * Sanity CLI Configuration
+ *
+ * Used by `sanity schema extract` and `sanity typegen generate` (see npm run typegen).
+ */
+export default defineCliConfig({
+  api: {
+    projectId: process.env.NEXT_PUBLIC_SANITY_PROJECT_ID || "",
+    dataset: process.env.NEXT_PUBLIC_SANITY_DATASET || "production",
+  },
+});
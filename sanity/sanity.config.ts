@@ -1,12 +1,15 @@
 import { defineConfig } from "sanity";
 import { structureTool } from "sanity/structure";
+import { muxInput } from "sanity-plugin-mux-input";
 import homepage from "./schemaTypes/homepage";
 import post from "./schemaTypes/post";
 import page from "./schemaTypes/page";
 import globalSettings from "./schemaTypes/globalSettings";
 import imageWithAlt from "./schemaTypes/imageWithAlt";
+import information from "./schemaTypes/information";
 import navigation from "./schemaTypes/navigation";
 import project from "./schemaTypes/project";
+import projectTag from "./schemaTypes/projectTag";
 
 /**
  * Sanity Studio Configuration
@@ -18,6 +21,13 @@ import project from "./schemaTypes/project";
  * 1. Create a new schema file in ./schemaTypes/
  * 2. Import it above
  * 3. Add it to the types array below
+ *
+ * The Mux input plugin adds the "mux.video" field type used by homepage and project videos:
+ * editors drop a file in, it is uploaded straight to Mux, and a "mux.videoAsset" document
+ * (playback ID, aspect ratio, duration) is stored once Mux has processed it. Mux API
+ * credentials are entered once in the Studio (Videos tool) and kept in the dataset.
+ * Without credentials, editors can still fill in the other video fields, and the site
+ * plays existing videos.
  */
 export default defineConfig({
   name: "default",
@@ -27,7 +37,7 @@ export default defineConfig({
   basePath: "/studio",
   apiVersion: "2024-01-01",
   useCdn: true,
-  plugins: [structureTool()],
+  plugins: [structureTool(), muxInput()],
   schema: {
     types: [
       homepage,
@@ -35,8 +45,10 @@ export default defineConfig({
       page,
       globalSettings,
       imageWithAlt,
+      information,
       navigation,
       project,
+      projectTag,
     ],
   },
 });
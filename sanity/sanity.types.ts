@@ -0,0 +1,1223 @@
+/**
+ * ---------------------------------------------------------------------------------
+ * This file has been generated by Sanity TypeGen.
+ * Command: `sanity typegen generate`
+ *
+ * Any modifications made directly to this file will be overwritten the next time
+ * the TypeScript definitions are generated. Please make changes to the Sanity
+ * schema definitions and/or GROQ queries if you need to update these types.
+ *
+ * For more information on how to use Sanity TypeGen, visit the official documentation:
+ * https://www.sanity.io/docs/sanity-typegen
+ * ---------------------------------------------------------------------------------
+ */
+
+// Source: schema.json
+export type ProjectTag = {
+  _id: string;
+  _type: "projectTag";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  title?: string;
+  slug?: Slug;
+  category?: "medium" | "discipline";
+};
+
+export type Slug = {
+  _type: "slug";
+  current?: string;
+  source?: string;
+};
+
+export type Project = {
+  _id: string;
+  _type: "project";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  title?: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "normal" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "blockquote";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }>;
+  slug?: Slug;
+  order?: number;
+  year?: number;
+  client?: string;
+  tags?: Array<{
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    _key: string;
+    [internalGroqTypeReferenceTo]?: "projectTag";
+  }>;
+  role?: string;
+  location?: string;
+  slideshowImages?: Array<{
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt?: string;
+    startVisible?: boolean;
+    _type: "image";
+    _key: string;
+  } | {
+    videoType?: "mux" | "file";
+    muxVideo?: MuxVideo;
+    muxPlaybackId?: string;
+    playbackPolicy?: "public" | "signed";
+    thumbnailTime?: number;
+    videoFile?: {
+      asset?: {
+        _ref: string;
+        _type: "reference";
+        _weak?: boolean;
+        [internalGroqTypeReferenceTo]?: "sanity.fileAsset";
+      };
+      media?: unknown;
+      _type: "file";
+    };
+    poster?: {
+      asset?: {
+        _ref: string;
+        _type: "reference";
+        _weak?: boolean;
+        [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+      };
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      alt?: string;
+      _type: "image";
+    };
+    alt?: string;
+    autoplay?: boolean;
+    loop?: boolean;
+    muted?: boolean;
+    controls?: boolean;
+    startVisible?: boolean;
+    _type: "video";
+    _key: string;
+  }>;
+};
+
+export type SanityImageCrop = {
+  _type: "sanity.imageCrop";
+  top?: number;
+  bottom?: number;
+  left?: number;
+  right?: number;
+};
+
+export type SanityImageHotspot = {
+  _type: "sanity.imageHotspot";
+  x?: number;
+  y?: number;
+  height?: number;
+  width?: number;
+};
+
+export type MuxVideo = {
+  _type: "mux.video";
+  asset?: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "mux.videoAsset";
+  };
+};
+
+export type Navigation = {
+  _type: "navigation";
+  identity?: string;
+  items?: Array<{
+    label?: string;
+    href?: string;
+    _key: string;
+  }>;
+};
+
+export type Information = {
+  _id: string;
+  _type: "information";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  bio?: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "normal";
+    listItem?: never;
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }>;
+  contact?: {
+    email?: string;
+    phone?: string;
+    socialLinks?: Array<{
+      label?: string;
+      url?: string;
+      _type: "socialLink";
+      _key: string;
+    }>;
+  };
+  representation?: Array<{
+    name?: string;
+    location?: string;
+    url?: string;
+    _type: "representative";
+    _key: string;
+  }>;
+  cvSections?: Array<{
+    title?: string;
+    entries?: Array<{
+      year?: number;
+      title?: string;
+      details?: string;
+      url?: string;
+      _type: "cvEntry";
+      _key: string;
+    }>;
+    _type: "cvSection";
+    _key: string;
+  }>;
+};
+
+export type ImageWithAlt = {
+  _type: "imageWithAlt";
+  image?: {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    _type: "image";
+  };
+  alt?: string;
+};
+
+export type GlobalSettings = {
+  _id: string;
+  _type: "globalSettings";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  siteTitle?: string;
+  siteDescription?: string;
+  navigation?: Navigation;
+  defaultOgImage?: {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    _type: "image";
+  };
+};
+
+export type Page = {
+  _id: string;
+  _type: "page";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  title?: string;
+  slug?: Slug;
+  description?: string;
+  content?: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "normal" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "blockquote";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  } | {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt?: string;
+    _type: "image";
+    _key: string;
+  }>;
+};
+
+export type Post = {
+  _id: string;
+  _type: "post";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  title?: string;
+  slug?: Slug;
+  description?: string;
+  content?: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "normal" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "blockquote";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  } | {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt?: string;
+    _type: "image";
+    _key: string;
+  }>;
+  featuredImage?: {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    _type: "image";
+  };
+  publishedAt?: string;
+};
+
+export type Homepage = {
+  _id: string;
+  _type: "homepage";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  items?: Array<{
+    title?: string;
+    image?: {
+      asset?: {
+        _ref: string;
+        _type: "reference";
+        _weak?: boolean;
+        [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+      };
+      media?: unknown;
+      hotspot?: SanityImageHotspot;
+      crop?: SanityImageCrop;
+      alt?: string;
+      _type: "image";
+    };
+    video?: {
+      videoType?: "mux" | "file";
+      muxVideo?: MuxVideo;
+      muxPlaybackId?: string;
+      playbackPolicy?: "public" | "signed";
+      thumbnailTime?: number;
+      videoFile?: {
+        asset?: {
+          _ref: string;
+          _type: "reference";
+          _weak?: boolean;
+          [internalGroqTypeReferenceTo]?: "sanity.fileAsset";
+        };
+        media?: unknown;
+        _type: "file";
+      };
+      poster?: {
+        asset?: {
+          _ref: string;
+          _type: "reference";
+          _weak?: boolean;
+          [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+        };
+        media?: unknown;
+        hotspot?: SanityImageHotspot;
+        crop?: SanityImageCrop;
+        alt?: string;
+        _type: "image";
+      };
+      alt?: string;
+      autoplay?: boolean;
+      loop?: boolean;
+      muted?: boolean;
+      controls?: boolean;
+    };
+    _type: "slideshowItem";
+    _key: string;
+  }>;
+};
+
+export type MuxVideoAsset = {
+  _id: string;
+  _type: "mux.videoAsset";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  status?: string;
+  assetId?: string;
+  playbackId?: string;
+  filename?: string;
+  thumbTime?: number;
+  data?: MuxAssetData;
+};
+
+export type MuxAssetData = {
+  _type: "mux.assetData";
+  resolution_tier?: string;
+  upload_id?: string;
+  created_at?: string;
+  id?: string;
+  status?: string;
+  max_stored_resolution?: string;
+  passthrough?: string;
+  encoding_tier?: string;
+  video_quality?: string;
+  master_access?: string;
+  aspect_ratio?: string;
+  duration?: number;
+  max_stored_frame_rate?: number;
+  mp4_support?: string;
+  max_resolution_tier?: string;
+  tracks?: Array<{
+    _key: string;
+  } & MuxTrack>;
+  playback_ids?: Array<{
+    _key: string;
+  } & MuxPlaybackId>;
+  static_renditions?: MuxStaticRenditions;
+};
+
+export type MuxStaticRenditions = {
+  _type: "mux.staticRenditions";
+  status?: string;
+  files?: Array<{
+    _key: string;
+  } & MuxStaticRenditionFile>;
+};
+
+export type MuxStaticRenditionFile = {
+  _type: "mux.staticRenditionFile";
+  name?: string;
+  ext?: string;
+  height?: number;
+  width?: number;
+  bitrate?: number;
+  filesize?: string;
+  type?: string;
+  status?: string;
+  resolution_tier?: string;
+  resolution?: string;
+  id?: string;
+  passthrough?: string;
+};
+
+export type MuxPlaybackId = {
+  _type: "mux.playbackId";
+  id?: string;
+  policy?: string;
+};
+
+export type MuxTrack = {
+  _type: "mux.track";
+  id?: string;
+  type?: string;
+  max_width?: number;
+  max_frame_rate?: number;
+  duration?: number;
+  max_height?: number;
+  language_code?: string;
+  name?: string;
+  status?: string;
+  text_source?: string;
+  text_type?: string;
+};
+
+export type SanityImagePaletteSwatch = {
+  _type: "sanity.imagePaletteSwatch";
+  background?: string;
+  foreground?: string;
+  population?: number;
+  title?: string;
+};
+
+export type SanityImagePalette = {
+  _type: "sanity.imagePalette";
+  darkMuted?: SanityImagePaletteSwatch;
+  lightVibrant?: SanityImagePaletteSwatch;
+  darkVibrant?: SanityImagePaletteSwatch;
+  vibrant?: SanityImagePaletteSwatch;
+  dominant?: SanityImagePaletteSwatch;
+  lightMuted?: SanityImagePaletteSwatch;
+  muted?: SanityImagePaletteSwatch;
+};
+
+export type SanityImageDimensions = {
+  _type: "sanity.imageDimensions";
+  height?: number;
+  width?: number;
+  aspectRatio?: number;
+};
+
+export type SanityImageMetadata = {
+  _type: "sanity.imageMetadata";
+  location?: Geopoint;
+  dimensions?: SanityImageDimensions;
+  palette?: SanityImagePalette;
+  lqip?: string;
+  blurHash?: string;
+  hasAlpha?: boolean;
+  isOpaque?: boolean;
+};
+
+export type SanityFileAsset = {
+  _id: string;
+  _type: "sanity.fileAsset";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  originalFilename?: string;
+  label?: string;
+  title?: string;
+  description?: string;
+  altText?: string;
+  sha1hash?: string;
+  extension?: string;
+  mimeType?: string;
+  size?: number;
+  assetId?: string;
+  uploadId?: string;
+  path?: string;
+  url?: string;
+  source?: SanityAssetSourceData;
+};
+
+export type SanityAssetSourceData = {
+  _type: "sanity.assetSourceData";
+  name?: string;
+  id?: string;
+  url?: string;
+};
+
+export type SanityImageAsset = {
+  _id: string;
+  _type: "sanity.imageAsset";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  originalFilename?: string;
+  label?: string;
+  title?: string;
+  description?: string;
+  altText?: string;
+  sha1hash?: string;
+  extension?: string;
+  mimeType?: string;
+  size?: number;
+  assetId?: string;
+  uploadId?: string;
+  path?: string;
+  url?: string;
+  metadata?: SanityImageMetadata;
+  source?: SanityAssetSourceData;
+};
+
+export type Geopoint = {
+  _type: "geopoint";
+  lat?: number;
+  lng?: number;
+  alt?: number;
+};
+
+export type AllSanitySchemaTypes = ProjectTag | Slug | Project | SanityImageCrop | SanityImageHotspot | MuxVideo | Navigation | Information | ImageWithAlt | GlobalSettings | Page | Post | Homepage | MuxVideoAsset | MuxAssetData | MuxStaticRenditions | MuxStaticRenditionFile | MuxPlaybackId | MuxTrack | SanityImagePaletteSwatch | SanityImagePalette | SanityImageDimensions | SanityImageMetadata | SanityFileAsset | SanityAssetSourceData | SanityImageAsset | Geopoint;
+export declare const internalGroqTypeReferenceTo: unique symbol;
+// Source: ../lib/queries.ts
+// Variable: GLOBAL_SETTINGS_QUERY
+// Query: *[_type == "globalSettings"][0]
+export type GLOBAL_SETTINGS_QUERYResult = {
+  _id: string;
+  _type: "globalSettings";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  siteTitle?: string;
+  siteDescription?: string;
+  navigation?: Navigation;
+  defaultOgImage?: {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    _type: "image";
+  };
+} | null;
+// Variable: HOMEPAGE_QUERY
+// Query: *[_type == "homepage"][0]{  _id,  items[]{    _key,    title,    image{      "_type": "image",        asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt    },    video{      "_type": "video",        videoType,  "muxPlaybackId": coalesce(muxVideo.asset->playbackId, muxPlaybackId),  "muxAspectRatio": muxVideo.asset->data.aspect_ratio,  "muxDuration": muxVideo.asset->data.duration,  playbackPolicy,  thumbnailTime,  videoFile{    asset->{      _id,      url,      originalFilename    }  },  poster{      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  alt,  autoplay,  loop,  muted,  controls    }  }}
+export type HOMEPAGE_QUERYResult = {
+  _id: string;
+  items: Array<{
+    _key: string;
+    title: string | null;
+    image: {
+      _type: "image";
+      asset: {
+        _id: string;
+        url: string | null;
+        metadata: {
+          dimensions: SanityImageDimensions | null;
+          lqip: string | null;
+          palette: {
+            dominant: SanityImagePaletteSwatch | null;
+          } | null;
+        } | null;
+      } | null;
+      crop: SanityImageCrop | null;
+      hotspot: SanityImageHotspot | null;
+      alt: string | null;
+    } | null;
+    video: {
+      _type: "video";
+      videoType: "file" | "mux" | null;
+      muxPlaybackId: string | null;
+      muxAspectRatio: string | null;
+      muxDuration: number | null;
+      playbackPolicy: "public" | "signed" | null;
+      thumbnailTime: number | null;
+      videoFile: {
+        asset: {
+          _id: string;
+          url: string | null;
+          originalFilename: string | null;
+        } | null;
+      } | null;
+      poster: {
+        asset: {
+          _id: string;
+          url: string | null;
+          metadata: {
+            dimensions: SanityImageDimensions | null;
+            lqip: string | null;
+            palette: {
+              dominant: SanityImagePaletteSwatch | null;
+            } | null;
+          } | null;
+        } | null;
+        crop: SanityImageCrop | null;
+        hotspot: SanityImageHotspot | null;
+        alt: string | null;
+      } | null;
+      alt: string | null;
+      autoplay: boolean | null;
+      loop: boolean | null;
+      muted: boolean | null;
+      controls: boolean | null;
+    } | null;
+  }> | null;
+} | null;
+// Variable: INFORMATION_QUERY
+// Query: *[_type == "information"][0]{  _id,  bio,  contact{    email,    phone,    socialLinks[]{ _key, label, url }  },  representation[]{ _key, name, location, url },  cvSections[]{    _key,    title,    entries[]{ _key, year, title, details, url }  }}
+export type INFORMATION_QUERYResult = {
+  _id: string;
+  bio: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "normal";
+    listItem?: never;
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }> | null;
+  contact: {
+    email: string | null;
+    phone: string | null;
+    socialLinks: Array<{
+      _key: string;
+      label: string | null;
+      url: string | null;
+    }> | null;
+  } | null;
+  representation: Array<{
+    _key: string;
+    name: string | null;
+    location: string | null;
+    url: string | null;
+  }> | null;
+  cvSections: Array<{
+    _key: string;
+    title: string | null;
+    entries: Array<{
+      _key: string;
+      year: number | null;
+      title: string | null;
+      details: string | null;
+      url: string | null;
+    }> | null;
+  }> | null;
+} | null;
+// Variable: PROJECTS_QUERY
+// Query: *[_type == "project"] | order(order asc) {    _id,  _createdAt,  _updatedAt,  title,  slug,  order,  year,  client,  role,  location,  tags[]->{    _id,    title,    slug,    category  },  slideshowImages[]{      _key,  _type,  startVisible,  _type == "image" => {      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  _type == "video" => {      videoType,  "muxPlaybackId": coalesce(muxVideo.asset->playbackId, muxPlaybackId),  "muxAspectRatio": muxVideo.asset->data.aspect_ratio,  "muxDuration": muxVideo.asset->data.duration,  playbackPolicy,  thumbnailTime,  videoFile{    asset->{      _id,      url,      originalFilename    }  },  poster{      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  alt,  autoplay,  loop,  muted,  controls  }  }}
+export type PROJECTS_QUERYResult = Array<{
+  _id: string;
+  _createdAt: string;
+  _updatedAt: string;
+  title: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "blockquote" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "normal";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }> | null;
+  slug: Slug | null;
+  order: number | null;
+  year: number | null;
+  client: string | null;
+  role: string | null;
+  location: string | null;
+  tags: Array<{
+    _id: string;
+    title: string | null;
+    slug: Slug | null;
+    category: "discipline" | "medium" | null;
+  }> | null;
+  slideshowImages: Array<{
+    _key: string;
+    _type: "image";
+    startVisible: boolean | null;
+    asset: {
+      _id: string;
+      url: string | null;
+      metadata: {
+        dimensions: SanityImageDimensions | null;
+        lqip: string | null;
+        palette: {
+          dominant: SanityImagePaletteSwatch | null;
+        } | null;
+      } | null;
+    } | null;
+    crop: SanityImageCrop | null;
+    hotspot: SanityImageHotspot | null;
+    alt: string | null;
+  } | {
+    _key: string;
+    _type: "video";
+    startVisible: boolean | null;
+    videoType: "file" | "mux" | null;
+    muxPlaybackId: string | null;
+    muxAspectRatio: string | null;
+    muxDuration: number | null;
+    playbackPolicy: "public" | "signed" | null;
+    thumbnailTime: number | null;
+    videoFile: {
+      asset: {
+        _id: string;
+        url: string | null;
+        originalFilename: string | null;
+      } | null;
+    } | null;
+    poster: {
+      asset: {
+        _id: string;
+        url: string | null;
+        metadata: {
+          dimensions: SanityImageDimensions | null;
+          lqip: string | null;
+          palette: {
+            dominant: SanityImagePaletteSwatch | null;
+          } | null;
+        } | null;
+      } | null;
+      crop: SanityImageCrop | null;
+      hotspot: SanityImageHotspot | null;
+      alt: string | null;
+    } | null;
+    alt: string | null;
+    autoplay: boolean | null;
+    loop: boolean | null;
+    muted: boolean | null;
+    controls: boolean | null;
+  }> | null;
+}>;
+// Variable: PROJECT_BY_SLUG_QUERY
+// Query: *[_type == "project" && slug.current == $slug][0]{    _id,  _createdAt,  _updatedAt,  title,  slug,  order,  year,  client,  role,  location,  tags[]->{    _id,    title,    slug,    category  },  slideshowImages[]{      _key,  _type,  startVisible,  _type == "image" => {      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  _type == "video" => {      videoType,  "muxPlaybackId": coalesce(muxVideo.asset->playbackId, muxPlaybackId),  "muxAspectRatio": muxVideo.asset->data.aspect_ratio,  "muxDuration": muxVideo.asset->data.duration,  playbackPolicy,  thumbnailTime,  videoFile{    asset->{      _id,      url,      originalFilename    }  },  poster{      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  alt,  autoplay,  loop,  muted,  controls  }  }}
+export type PROJECT_BY_SLUG_QUERYResult = {
+  _id: string;
+  _createdAt: string;
+  _updatedAt: string;
+  title: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "blockquote" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "normal";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  }> | null;
+  slug: Slug | null;
+  order: number | null;
+  year: number | null;
+  client: string | null;
+  role: string | null;
+  location: string | null;
+  tags: Array<{
+    _id: string;
+    title: string | null;
+    slug: Slug | null;
+    category: "discipline" | "medium" | null;
+  }> | null;
+  slideshowImages: Array<{
+    _key: string;
+    _type: "image";
+    startVisible: boolean | null;
+    asset: {
+      _id: string;
+      url: string | null;
+      metadata: {
+        dimensions: SanityImageDimensions | null;
+        lqip: string | null;
+        palette: {
+          dominant: SanityImagePaletteSwatch | null;
+        } | null;
+      } | null;
+    } | null;
+    crop: SanityImageCrop | null;
+    hotspot: SanityImageHotspot | null;
+    alt: string | null;
+  } | {
+    _key: string;
+    _type: "video";
+    startVisible: boolean | null;
+    videoType: "file" | "mux" | null;
+    muxPlaybackId: string | null;
+    muxAspectRatio: string | null;
+    muxDuration: number | null;
+    playbackPolicy: "public" | "signed" | null;
+    thumbnailTime: number | null;
+    videoFile: {
+      asset: {
+        _id: string;
+        url: string | null;
+        originalFilename: string | null;
+      } | null;
+    } | null;
+    poster: {
+      asset: {
+        _id: string;
+        url: string | null;
+        metadata: {
+          dimensions: SanityImageDimensions | null;
+          lqip: string | null;
+          palette: {
+            dominant: SanityImagePaletteSwatch | null;
+          } | null;
+        } | null;
+      } | null;
+      crop: SanityImageCrop | null;
+      hotspot: SanityImageHotspot | null;
+      alt: string | null;
+    } | null;
+    alt: string | null;
+    autoplay: boolean | null;
+    loop: boolean | null;
+    muted: boolean | null;
+    controls: boolean | null;
+  }> | null;
+} | null;
+// Variable: PAGE_BY_SLUG_QUERY
+// Query: *[_type == "page" && slug.current == $slug][0]{  _id,  title,  slug,  description,  content}
+export type PAGE_BY_SLUG_QUERYResult = {
+  _id: string;
+  title: string | null;
+  slug: Slug | null;
+  description: string | null;
+  content: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "blockquote" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "normal";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  } | {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt?: string;
+    _type: "image";
+    _key: string;
+  }> | null;
+} | null;
+// Variable: ALL_PAGES_QUERY
+// Query: *[_type == "page" && defined(slug.current)]{  _id,  title,  slug}
+export type ALL_PAGES_QUERYResult = Array<{
+  _id: string;
+  title: string | null;
+  slug: Slug | null;
+}>;
+// Variable: ALL_POSTS_QUERY
+// Query: *[_type == "post"] | order(publishedAt desc) {    _id,  _createdAt,  _updatedAt,  title,  slug,  description,  featuredImage{      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  publishedAt,  content}
+export type ALL_POSTS_QUERYResult = Array<{
+  _id: string;
+  _createdAt: string;
+  _updatedAt: string;
+  title: string | null;
+  slug: Slug | null;
+  description: string | null;
+  featuredImage: {
+    asset: {
+      _id: string;
+      url: string | null;
+      metadata: {
+        dimensions: SanityImageDimensions | null;
+        lqip: string | null;
+        palette: {
+          dominant: SanityImagePaletteSwatch | null;
+        } | null;
+      } | null;
+    } | null;
+    crop: SanityImageCrop | null;
+    hotspot: SanityImageHotspot | null;
+    alt: null;
+  } | null;
+  publishedAt: string | null;
+  content: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "blockquote" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "normal";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  } | {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt?: string;
+    _type: "image";
+    _key: string;
+  }> | null;
+}>;
+// Variable: PAGINATED_POSTS_QUERY
+// Query: {  "posts": *[_type == "post" && defined(slug.current)] | order(publishedAt desc) [$start...$end] {      _id,  _createdAt,  _updatedAt,  title,  slug,  description,  featuredImage{      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  publishedAt  },  "total": count(*[_type == "post" && defined(slug.current)])}
+export type PAGINATED_POSTS_QUERYResult = {
+  posts: Array<{
+    _id: string;
+    _createdAt: string;
+    _updatedAt: string;
+    title: string | null;
+    slug: Slug | null;
+    description: string | null;
+    featuredImage: {
+      asset: {
+        _id: string;
+        url: string | null;
+        metadata: {
+          dimensions: SanityImageDimensions | null;
+          lqip: string | null;
+          palette: {
+            dominant: SanityImagePaletteSwatch | null;
+          } | null;
+        } | null;
+      } | null;
+      crop: SanityImageCrop | null;
+      hotspot: SanityImageHotspot | null;
+      alt: null;
+    } | null;
+    publishedAt: string | null;
+  }>;
+  total: number;
+};
+// Variable: POST_BY_SLUG_QUERY
+// Query: *[_type == "post" && slug.current == $slug][0]{    _id,  _createdAt,  _updatedAt,  title,  slug,  description,  featuredImage{      asset->{    _id,    url,    metadata{      dimensions,      lqip,      palette{        dominant      }    }  },  crop,  hotspot,  alt  },  publishedAt,  content}
+export type POST_BY_SLUG_QUERYResult = {
+  _id: string;
+  _createdAt: string;
+  _updatedAt: string;
+  title: string | null;
+  slug: Slug | null;
+  description: string | null;
+  featuredImage: {
+    asset: {
+      _id: string;
+      url: string | null;
+      metadata: {
+        dimensions: SanityImageDimensions | null;
+        lqip: string | null;
+        palette: {
+          dominant: SanityImagePaletteSwatch | null;
+        } | null;
+      } | null;
+    } | null;
+    crop: SanityImageCrop | null;
+    hotspot: SanityImageHotspot | null;
+    alt: null;
+  } | null;
+  publishedAt: string | null;
+  content: Array<{
+    children?: Array<{
+      marks?: Array<string>;
+      text?: string;
+      _type: "span";
+      _key: string;
+    }>;
+    style?: "blockquote" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "normal";
+    listItem?: "bullet" | "number";
+    markDefs?: Array<{
+      href?: string;
+      blank?: boolean;
+      _type: "link";
+      _key: string;
+    }>;
+    level?: number;
+    _type: "block";
+    _key: string;
+  } | {
+    asset?: {
+      _ref: string;
+      _type: "reference";
+      _weak?: boolean;
+      [internalGroqTypeReferenceTo]?: "sanity.imageAsset";
+    };
+    media?: unknown;
+    hotspot?: SanityImageHotspot;
+    crop?: SanityImageCrop;
+    alt?: string;
+    _type: "image";
+    _key: string;
+  }> | null;
+} | null;
+// Variable: SITEMAP_DOCUMENTS_QUERY
+// Query: *[_type in $types && !(_id in path("drafts.**"))]{  _id,  _type,  _updatedAt,  "slug": slug.current,  _type == "project" => {    "images": slideshowImages[]{      "url": coalesce(asset->url, poster.asset->url)    }[defined(url)].url  }}
+export type SITEMAP_DOCUMENTS_QUERYResult = Array<{
+  _id: string;
+  _type: "globalSettings";
+  _updatedAt: string;
+  slug: null;
+} | {
+  _id: string;
+  _type: "homepage";
+  _updatedAt: string;
+  slug: null;
+} | {
+  _id: string;
+  _type: "information";
+  _updatedAt: string;
+  slug: null;
+} | {
+  _id: string;
+  _type: "mux.videoAsset";
+  _updatedAt: string;
+  slug: null;
+} | {
+  _id: string;
+  _type: "page";
+  _updatedAt: string;
+  slug: string | null;
+} | {
+  _id: string;
+  _type: "post";
+  _updatedAt: string;
+  slug: string | null;
+} | {
+  _id: string;
+  _type: "project";
+  _updatedAt: string;
+  slug: string | null;
+  images: Array<string | null> | null;
+} | {
+  _id: string;
+  _type: "projectTag";
+  _updatedAt: string;
+  slug: string | null;
+} | {
+  _id: string;
+  _type: "sanity.fileAsset";
+  _updatedAt: string;
+  slug: null;
+} | {
+  _id: string;
+  _type: "sanity.imageAsset";
+  _updatedAt: string;
+  slug: null;
+}>;
+// Variable: SEARCH_QUERY
+// Query: *[  _type in ["project", "post", "page"] && defined(slug.current) && (    pt::text(title) match $terms ||    title match $terms ||    description match $terms ||    [client, role, location] match $terms ||    pt::text(content) match $terms  )] | score(  boost(pt::text(title) match $terms, 5),  boost(title match $terms, 5),  boost(description match $terms, 2),  boost([client, role, location] match $terms, 2),  pt::text(content) match $terms) | order(_score desc) [0...$limit] {  _id,  _type,  "title": coalesce(pt::text(title), title),  "slug": slug.current,  "excerpt": select(_type == "project" => client, description)}
+export type SEARCH_QUERYResult = Array<{
+  _id: string;
+  _type: "page";
+  title: string;
+  slug: string | null;
+  excerpt: string | null;
+} | {
+  _id: string;
+  _type: "post";
+  title: string;
+  slug: string | null;
+  excerpt: string | null;
+} | {
+  _id: string;
+  _type: "project";
+  title: string;
+  slug: string | null;
+  excerpt: string | null;
+}>;
+// Variable: SIGNED_MUX_VIDEO_QUERY
+// Query: [  ...*[_type == "homepage"].items[].video,  ...*[_type == "project"].slideshowImages[_type == "video"]][  playbackPolicy == "signed" && coalesce(muxVideo.asset->playbackId, muxPlaybackId) == $playbackId][0]{  thumbnailTime}
+export type SIGNED_MUX_VIDEO_QUERYResult = {
+  thumbnailTime: number | null;
+} | null;
+
+// Query TypeMap
+import "@sanity/client";
+declare module "@sanity/client" {
+  interface SanityQueries {
+    "*[_type == \"globalSettings\"][0]": GLOBAL_SETTINGS_QUERYResult;
+    "*[_type == \"homepage\"][0]{\n  _id,\n  items[]{\n    _key,\n    title,\n    image{\n      \"_type\": \"image\",\n      \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n    },\n    video{\n      \"_type\": \"video\",\n      \n  videoType,\n  \"muxPlaybackId\": coalesce(muxVideo.asset->playbackId, muxPlaybackId),\n  \"muxAspectRatio\": muxVideo.asset->data.aspect_ratio,\n  \"muxDuration\": muxVideo.asset->data.duration,\n  playbackPolicy,\n  thumbnailTime,\n  videoFile{\n    asset->{\n      _id,\n      url,\n      originalFilename\n    }\n  },\n  poster{\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  alt,\n  autoplay,\n  loop,\n  muted,\n  controls\n\n    }\n  }\n}": HOMEPAGE_QUERYResult;
+    "*[_type == \"information\"][0]{\n  _id,\n  bio,\n  contact{\n    email,\n    phone,\n    socialLinks[]{ _key, label, url }\n  },\n  representation[]{ _key, name, location, url },\n  cvSections[]{\n    _key,\n    title,\n    entries[]{ _key, year, title, details, url }\n  }\n}": INFORMATION_QUERYResult;
+    "*[_type == \"project\"] | order(order asc) {\n  \n  _id,\n  _createdAt,\n  _updatedAt,\n  title,\n  slug,\n  order,\n  year,\n  client,\n  role,\n  location,\n  tags[]->{\n    _id,\n    title,\n    slug,\n    category\n  },\n  slideshowImages[]{\n    \n  _key,\n  _type,\n  startVisible,\n  _type == \"image\" => {\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  _type == \"video\" => {\n    \n  videoType,\n  \"muxPlaybackId\": coalesce(muxVideo.asset->playbackId, muxPlaybackId),\n  \"muxAspectRatio\": muxVideo.asset->data.aspect_ratio,\n  \"muxDuration\": muxVideo.asset->data.duration,\n  playbackPolicy,\n  thumbnailTime,\n  videoFile{\n    asset->{\n      _id,\n      url,\n      originalFilename\n    }\n  },\n  poster{\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  alt,\n  autoplay,\n  loop,\n  muted,\n  controls\n\n  }\n\n  }\n\n}": PROJECTS_QUERYResult;
+    "*[_type == \"project\" && slug.current == $slug][0]{\n  \n  _id,\n  _createdAt,\n  _updatedAt,\n  title,\n  slug,\n  order,\n  year,\n  client,\n  role,\n  location,\n  tags[]->{\n    _id,\n    title,\n    slug,\n    category\n  },\n  slideshowImages[]{\n    \n  _key,\n  _type,\n  startVisible,\n  _type == \"image\" => {\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  _type == \"video\" => {\n    \n  videoType,\n  \"muxPlaybackId\": coalesce(muxVideo.asset->playbackId, muxPlaybackId),\n  \"muxAspectRatio\": muxVideo.asset->data.aspect_ratio,\n  \"muxDuration\": muxVideo.asset->data.duration,\n  playbackPolicy,\n  thumbnailTime,\n  videoFile{\n    asset->{\n      _id,\n      url,\n      originalFilename\n    }\n  },\n  poster{\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  alt,\n  autoplay,\n  loop,\n  muted,\n  controls\n\n  }\n\n  }\n\n}": PROJECT_BY_SLUG_QUERYResult;
+    "*[_type == \"page\" && slug.current == $slug][0]{\n  _id,\n  title,\n  slug,\n  description,\n  content\n}": PAGE_BY_SLUG_QUERYResult;
+    "*[_type == \"page\" && defined(slug.current)]{\n  _id,\n  title,\n  slug\n}": ALL_PAGES_QUERYResult;
+    "*[_type == \"post\"] | order(publishedAt desc) {\n  \n  _id,\n  _createdAt,\n  _updatedAt,\n  title,\n  slug,\n  description,\n  featuredImage{\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  publishedAt\n,\n  content\n}": ALL_POSTS_QUERYResult;
+    "{\n  \"posts\": *[_type == \"post\" && defined(slug.current)] | order(publishedAt desc) [$start...$end] {\n    \n  _id,\n  _createdAt,\n  _updatedAt,\n  title,\n  slug,\n  description,\n  featuredImage{\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  publishedAt\n\n  },\n  \"total\": count(*[_type == \"post\" && defined(slug.current)])\n}": PAGINATED_POSTS_QUERYResult;
+    "*[_type == \"post\" && slug.current == $slug][0]{\n  \n  _id,\n  _createdAt,\n  _updatedAt,\n  title,\n  slug,\n  description,\n  featuredImage{\n    \n  asset->{\n    _id,\n    url,\n    metadata{\n      dimensions,\n      lqip,\n      palette{\n        dominant\n      }\n    }\n  },\n  crop,\n  hotspot,\n  alt\n\n  },\n  publishedAt\n,\n  content\n}": POST_BY_SLUG_QUERYResult;
+    "*[_type in $types && !(_id in path(\"drafts.**\"))]{\n  _id,\n  _type,\n  _updatedAt,\n  \"slug\": slug.current,\n  _type == \"project\" => {\n    \"images\": slideshowImages[]{\n      \"url\": coalesce(asset->url, poster.asset->url)\n    }[defined(url)].url\n  }\n}": SITEMAP_DOCUMENTS_QUERYResult;
+    "*[\n  _type in [\"project\", \"post\", \"page\"] && defined(slug.current) && (\n    pt::text(title) match $terms ||\n    title match $terms ||\n    description match $terms ||\n    [client, role, location] match $terms ||\n    pt::text(content) match $terms\n  )\n] | score(\n  boost(pt::text(title) match $terms, 5),\n  boost(title match $terms, 5),\n  boost(description match $terms, 2),\n  boost([client, role, location] match $terms, 2),\n  pt::text(content) match $terms\n) | order(_score desc) [0...$limit] {\n  _id,\n  _type,\n  \"title\": coalesce(pt::text(title), title),\n  \"slug\": slug.current,\n  \"excerpt\": select(_type == \"project\" => client, description)\n}": SEARCH_QUERYResult;
+    "[\n  ...*[_type == \"homepage\"].items[].video,\n  ...*[_type == \"project\"].slideshowImages[_type == \"video\"]\n][\n  playbackPolicy == \"signed\" && coalesce(muxVideo.asset->playbackId, muxPlaybackId) == $playbackId\n][0]{\n  thumbnailTime\n}": SIGNED_MUX_VIDEO_QUERYResult;
+  }
+}
@@ -15,6 +15,11 @@ export default defineType({
       title: "Site Description",
       type: "text",
     }),
+    defineField({
+      name: "navigation",
+      title: "Navigation",
+      type: "navigation",
+    }),
     defineField({
       name: "defaultOgImage",
       title: "Default OG Image",
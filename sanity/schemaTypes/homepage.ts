@@ -57,20 +57,55 @@ export default defineType({
                   validation: (Rule) => Rule.required(),
                 },
                 {
-                  name: "muxPlaybackId",
-                  title: "Mux Playback ID",
-                  type: "string",
-                  description: "The playback ID from Mux (e.g., abc123xyz)",
+                  name: "muxVideo",
+                  title: "Mux Video",
+                  type: "mux.video",
+                  description: "Drop a video file here to upload it to Mux, or pick one already uploaded",
                   hidden: ({ parent }) => parent?.videoType !== "mux",
                   validation: (Rule) =>
                     Rule.custom((value, context) => {
-                      const parent = context.parent as { videoType?: string };
-                      if (parent?.videoType === "mux" && !value) {
-                        return "Mux Playback ID is required when using Mux video source";
+                      const parent = context.parent as { videoType?: string; muxPlaybackId?: string };
+                      const asset = (value as { asset?: { _ref?: string } } | undefined)?.asset;
+                      if (parent?.videoType === "mux" && !asset?._ref && !parent.muxPlaybackId) {
+                        return "Upload or select a Mux video when using Mux video source";
                       }
                       return true;
                     }),
                 },
+                {
+                  name: "muxPlaybackId",
+                  title: "Mux Playback ID (legacy)",
+                  type: "string",
+                  description:
+                    "Pasted playback ID from before Studio uploads; the 002-mux-playback-ids-to-assets migration converts it to a Mux Video",
+                  readOnly: true,
+                  hidden: ({ parent, value }) => parent?.videoType !== "mux" || !value,
+                },
+                {
+                  name: "playbackPolicy",
+                  title: "Playback Policy",
+                  type: "string",
+                  description:
+                    "Use Signed for unlisted videos whose Mux playback ID has a signed policy; the site then mints short-lived playback tokens",
+                  options: {
+                    list: [
+                      { title: "Public", value: "public" },
+                      { title: "Signed", value: "signed" },
+                    ],
+                    layout: "radio",
+                  },
+                  initialValue: "public",
+                  hidden: ({ parent }) => parent?.videoType !== "mux",
+                },
+                {
+                  name: "thumbnailTime",
+                  title: "Thumbnail Time",
+                  type: "number",
+                  description:
+                    "Second of the video used for the poster when no poster image is set, and where grid previews start (default 0)",
+                  hidden: ({ parent }) => parent?.videoType !== "mux",
+                  validation: (Rule) => Rule.min(0),
+                },
                 {
                   name: "videoFile",
                   title: "Video File",
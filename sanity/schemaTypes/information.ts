@@ -0,0 +1,233 @@
+import { defineField, defineType } from "sanity";
+
+/**
+ * Information schema - single document for the /information page
+ * Bio, contact details, representation and CV sections (grouped by year on the site)
+ */
+export default defineType({
+  name: "information",
+  title: "Information",
+  type: "document",
+  fields: [
+    defineField({
+      name: "bio",
+      title: "Bio",
+      type: "array",
+      of: [
+        {
+          type: "block",
+          styles: [{ title: "Normal", value: "normal" }],
+          lists: [],
+          marks: {
+            decorators: [
+              { title: "Strong", value: "strong" },
+              { title: "Emphasis", value: "em" },
+              { title: "Underline", value: "underline" },
+            ],
+            annotations: [
+              {
+                title: "Link",
+                name: "link",
+                type: "object",
+                fields: [
+                  {
+                    title: "URL",
+                    name: "href",
+                    type: "url",
+                    validation: (Rule) =>
+                      Rule.uri({
+                        allowRelative: true,
+                        scheme: ["http", "https", "mailto", "tel"],
+                      }),
+                  },
+                  {
+                    title: "Open in new tab",
+                    name: "blank",
+                    type: "boolean",
+                    description: "Check this to make the link open in a new browser tab",
+                    initialValue: false,
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: "contact",
+      title: "Contact",
+      type: "object",
+      fields: [
+        defineField({
+          name: "email",
+          title: "Email",
+          type: "email",
+        }),
+        defineField({
+          name: "phone",
+          title: "Phone",
+          type: "string",
+        }),
+        defineField({
+          name: "socialLinks",
+          title: "Social Links",
+          type: "array",
+          of: [
+            {
+              type: "object",
+              name: "socialLink",
+              fields: [
+                defineField({
+                  name: "label",
+                  title: "Label",
+                  type: "string",
+                  description: "e.g. Instagram, Vimeo",
+                  validation: (Rule) => Rule.required(),
+                }),
+                defineField({
+                  name: "url",
+                  title: "URL",
+                  type: "url",
+                  validation: (Rule) => Rule.required(),
+                }),
+              ],
+              preview: {
+                select: {
+                  title: "label",
+                  subtitle: "url",
+                },
+              },
+            },
+          ],
+        }),
+      ],
+    }),
+    defineField({
+      name: "representation",
+      title: "Representation",
+      type: "array",
+      description: "Galleries or agencies representing the artist.",
+      of: [
+        {
+          type: "object",
+          name: "representative",
+          fields: [
+            defineField({
+              name: "name",
+              title: "Name",
+              type: "string",
+              validation: (Rule) => Rule.required(),
+            }),
+            defineField({
+              name: "location",
+              title: "Location",
+              type: "string",
+              description: "e.g. New York",
+            }),
+            defineField({
+              name: "url",
+              title: "Website",
+              type: "url",
+            }),
+          ],
+          preview: {
+            select: {
+              title: "name",
+              subtitle: "location",
+            },
+          },
+        },
+      ],
+    }),
+    defineField({
+      name: "cvSections",
+      title: "CV Sections",
+      type: "array",
+      description: "e.g. Exhibitions, Awards, Publications. Entries are grouped by year on the site.",
+      of: [
+        {
+          type: "object",
+          name: "cvSection",
+          fields: [
+            defineField({
+              name: "title",
+              title: "Title",
+              type: "string",
+              validation: (Rule) => Rule.required(),
+            }),
+            defineField({
+              name: "entries",
+              title: "Entries",
+              type: "array",
+              of: [
+                {
+                  type: "object",
+                  name: "cvEntry",
+                  fields: [
+                    defineField({
+                      name: "year",
+                      title: "Year",
+                      type: "number",
+                      validation: (Rule) => Rule.required().integer().min(1900).max(2100),
+                    }),
+                    defineField({
+                      name: "title",
+                      title: "Title",
+                      type: "string",
+                      validation: (Rule) => Rule.required(),
+                    }),
+                    defineField({
+                      name: "details",
+                      title: "Details",
+                      type: "string",
+                      description: "e.g. venue and city, publisher, awarding body",
+                    }),
+                    defineField({
+                      name: "url",
+                      title: "Link",
+                      type: "url",
+                    }),
+                  ],
+                  preview: {
+                    select: {
+                      title: "title",
+                      year: "year",
+                      details: "details",
+                    },
+                    prepare({ title, year, details }) {
+                      return {
+                        title: title || "Entry",
+                        subtitle: [year, details].filter(Boolean).join(" · "),
+                      };
+                    },
+                  },
+                },
+              ],
+            }),
+          ],
+          preview: {
+            select: {
+              title: "title",
+              entries: "entries",
+            },
+            prepare({ title, entries }) {
+              const count = Array.isArray(entries) ? entries.length : 0;
+              return {
+                title: title || "Section",
+                subtitle: `${count} ${count === 1 ? "entry" : "entries"}`,
+              };
+            },
+          },
+        },
+      ],
+    }),
+  ],
+  preview: {
+    prepare() {
+      return {
+        title: "Information",
+      };
+    },
+  },
+});
@@ -5,10 +5,17 @@ export default defineType({
   title: "Navigation",
   type: "object",
   fields: [
+    defineField({
+      name: "identity",
+      title: "Identity Name",
+      type: "string",
+      description: "Name shown at the top of the site navigation (defaults to the site title).",
+    }),
     defineField({
       name: "items",
       title: "Navigation Items",
       type: "array",
+      description: "Links shown in the site navigation, in order (e.g. Projects → /projects).",
       of: [
         {
           type: "object",
@@ -1,4 +1,5 @@
 import { defineField, defineType } from "sanity";
+import { isReservedPageSlug } from "../../lib/routes";
 
 /**
  * Generic Page schema - for static pages like About, Contact, etc.
@@ -22,7 +23,14 @@ export default defineType({
         source: "title",
         maxLength: 96,
       },
-      validation: (Rule) => Rule.required(),
+      validation: (Rule) =>
+        Rule.required().custom((value) => {
+          const slug = value?.current;
+          if (slug && isReservedPageSlug(slug)) {
+            return `"${slug}" is used by the site itself; choose another slug`;
+          }
+          return true;
+        }),
     }),
     defineField({
       name: "description",
@@ -47,7 +47,7 @@ export default defineType({
                     title: "URL",
                     name: "href",
                     type: "url",
-                    validation: (Rule: { uri: (opts: object) => object }) =>
+                    validation: (Rule) =>
                       Rule.uri({
                         allowRelative: true,
                         scheme: ["http", "https", "mailto", "tel"],
@@ -76,7 +76,7 @@ export default defineType({
       title: "Slug",
       type: "slug",
       options: {
-        source: (doc: { title?: unknown }) => titleToPlainText(doc?.title),
+        source: (doc) => titleToPlainText(doc?.title),
         maxLength: 96,
       },
       validation: (Rule) => Rule.required(),
@@ -88,6 +88,36 @@ export default defineType({
       description: "Numbered order for display (e.g. 1, 2, 3...). Lower numbers appear first.",
       validation: (Rule) => Rule.required().min(0),
     }),
+    defineField({
+      name: "year",
+      title: "Year",
+      type: "number",
+      validation: (Rule) => Rule.integer().min(1900).max(2100),
+    }),
+    defineField({
+      name: "client",
+      title: "Client",
+      type: "string",
+    }),
+    defineField({
+      name: "tags",
+      title: "Tags",
+      type: "array",
+      description: "Mediums and disciplines; visitors can filter the projects page by them.",
+      of: [{ type: "reference", to: [{ type: "projectTag" }] }],
+      validation: (Rule) => Rule.unique(),
+    }),
+    defineField({
+      name: "role",
+      title: "Role",
+      type: "string",
+      description: "Your role on the project (e.g. Director, Photographer).",
+    }),
+    defineField({
+      name: "location",
+      title: "Location",
+      type: "string",
+    }),
     defineField({
       name: "slideshowImages",
       title: "Slideshow images",
@@ -132,20 +162,55 @@ export default defineType({
               validation: (Rule) => Rule.required(),
             },
             {
-              name: "muxPlaybackId",
-              title: "Mux Playback ID",
-              type: "string",
-              description: "The playback ID from Mux (e.g., abc123xyz)",
+              name: "muxVideo",
+              title: "Mux Video",
+              type: "mux.video",
+              description: "Drop a video file here to upload it to Mux, or pick one already uploaded",
               hidden: ({ parent }) => parent?.videoType !== "mux",
               validation: (Rule) =>
                 Rule.custom((value, context) => {
-                  const parent = context.parent as { videoType?: string };
-                  if (parent?.videoType === "mux" && !value) {
-                    return "Mux Playback ID is required when using Mux video source";
+                  const parent = context.parent as { videoType?: string; muxPlaybackId?: string };
+                  const asset = (value as { asset?: { _ref?: string } } | undefined)?.asset;
+                  if (parent?.videoType === "mux" && !asset?._ref && !parent.muxPlaybackId) {
+                    return "Upload or select a Mux video when using Mux video source";
                   }
                   return true;
                 }),
             },
+            {
+              name: "muxPlaybackId",
+              title: "Mux Playback ID (legacy)",
+              type: "string",
+              description:
+                "Pasted playback ID from before Studio uploads; the 002-mux-playback-ids-to-assets migration converts it to a Mux Video",
+              readOnly: true,
+              hidden: ({ parent, value }) => parent?.videoType !== "mux" || !value,
+            },
+            {
+              name: "playbackPolicy",
+              title: "Playback Policy",
+              type: "string",
+              description:
+                "Use Signed for unlisted videos whose Mux playback ID has a signed policy; the site then mints short-lived playback tokens",
+              options: {
+                list: [
+                  { title: "Public", value: "public" },
+                  { title: "Signed", value: "signed" },
+                ],
+                layout: "radio",
+              },
+              initialValue: "public",
+              hidden: ({ parent }) => parent?.videoType !== "mux",
+            },
+            {
+              name: "thumbnailTime",
+              title: "Thumbnail Time",
+              type: "number",
+              description:
+                "Second of the video used for the poster when no poster image is set, and where grid previews start (default 0)",
+              hidden: ({ parent }) => parent?.videoType !== "mux",
+              validation: (Rule) => Rule.min(0),
+            },
             {
               name: "videoFile",
               title: "Video File",
@@ -240,12 +305,13 @@ export default defineType({
     },
   ],
   preview: {
-    select: { title: "title", order: "order" },
-    prepare({ title, order }) {
+    select: { title: "title", order: "order", year: "year" },
+    prepare({ title, order, year }) {
       const text = titleToPlainText(title);
+      const details = [order != null ? `Order: ${order}` : null, year].filter(Boolean);
       return {
         title: text || "Untitled project",
-        subtitle: order != null ? `Order: ${order}` : undefined,
+        subtitle: details.length > 0 ? details.join(" · ") : undefined,
       };
     },
   },
@@ -0,0 +1,49 @@
+import { defineField, defineType } from "sanity";
+import { PROJECT_TAG_CATEGORIES } from "../../lib/projects";
+
+/**
+ * Project tag - a medium (e.g. Photography) or discipline (e.g. Art direction),
+ * referenced from projects and used to filter the projects grid
+ */
+export default defineType({
+  name: "projectTag",
+  title: "Project Tag",
+  type: "document",
+  fields: [
+    defineField({
+      name: "title",
+      title: "Title",
+      type: "string",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "slug",
+      title: "Slug",
+      type: "slug",
+      description: "Used in the projects page URL when filtering by this tag (e.g. /projects?tag=photography).",
+      options: {
+        source: "title",
+        maxLength: 96,
+      },
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "category",
+      title: "Category",
+      type: "string",
+      options: {
+        list: PROJECT_TAG_CATEGORIES,
+        layout: "radio",
+      },
+      initialValue: "medium",
+      validation: (Rule) => Rule.required(),
+    }),
+  ],
+  preview: {
+    select: { title: "title", category: "category" },
+    prepare({ title, category }) {
+      const categoryTitle = PROJECT_TAG_CATEGORIES.find((c) => c.value === category)?.title;
+      return { title: title || "Untitled tag", subtitle: categoryTitle };
+    },
+  },
+});
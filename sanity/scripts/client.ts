@@ -0,0 +1,34 @@
+/**
+ * Sanity client setup shared by the scripts in this folder.
+ *
+ * Environment variables:
+ * - NEXT_PUBLIC_SANITY_PROJECT_ID
+ * - NEXT_PUBLIC_SANITY_DATASET (default "production")
+ * - SANITY_API_WRITE_TOKEN: token with write access (also needed to read drafts)
+ */
+
+import { createClient, type SanityClient } from "@sanity/client";
+
+export const projectId = process.env.NEXT_PUBLIC_SANITY_PROJECT_ID;
+export const defaultDataset = process.env.NEXT_PUBLIC_SANITY_DATASET ?? "production";
+const token = process.env.SANITY_API_WRITE_TOKEN;
+
+/** Client for a dataset of the configured project; exits when the env vars are missing */
+export function createScriptClient(dataset: string = defaultDataset): SanityClient {
+  if (!projectId) {
+    console.error("Set NEXT_PUBLIC_SANITY_PROJECT_ID");
+    process.exit(1);
+  }
+  if (!token) {
+    console.error("Set SANITY_API_WRITE_TOKEN for write access (create in sanity.io manage)");
+    process.exit(1);
+  }
+
+  return createClient({
+    projectId,
+    dataset,
+    apiVersion: "2024-01-01",
+    token,
+    useCdn: false,
+  });
+}
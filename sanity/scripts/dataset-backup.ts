@@ -0,0 +1,306 @@
+/**
+ * Dataset backup and restore
+ *
+ * backup: exports every document (drafts included, system documents excluded) and the
+ * image/file assets they reference into backups/<dataset>-<timestamp>.tar.gz:
+ *   manifest.json    backup format version, source project/dataset, type filter, counts
+ *   data.ndjson      the documents, followed by their asset documents
+ *   images/, files/  the asset files, named as on the Sanity CDN
+ * Unpacked, a backup has the layout of a fixture dataset (see lib/fixtures.ts).
+ *
+ * restore: uploads the assets and writes the documents (createOrReplace, in batched
+ * transactions) into the target dataset. Asset references follow the uploaded assets.
+ *
+ * Run from project root (with env vars set, see ./client.ts):
+ *   npx ts-node --compiler-options '{"module":"CommonJS"}' sanity/scripts/dataset-backup.ts backup [options]
+ *   npx ts-node --compiler-options '{"module":"CommonJS"}' sanity/scripts/dataset-backup.ts restore <backup.tar.gz> [options]
+ *
+ * Options:
+ *   --types project,post   only these document types (backup and restore)
+ *   --out backups          folder for new backups (backup)
+ *   --dataset staging      dataset to back up / restore into (default NEXT_PUBLIC_SANITY_DATASET)
+ *   --id-prefix restored-  prefix every restored document ID, e.g. to restore next to the originals (restore)
+ *   --remap old=new        restore one document under another ID; repeatable (restore)
+ *   --dry-run              list what would be restored without writing anything (restore)
+ * References to remapped documents are rewritten to the new IDs. Restoring with --types also
+ * restores the documents the selected ones reference (transitively), so that references
+ * don't dangle under new IDs; references to documents missing from the backup are listed.
+ */
+
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { parseArgs } from "util";
+import type { SanityClient, SanityDocument } from "@sanity/client";
+import { create as createTar, extract as extractTar } from "tar";
+import { createScriptClient, defaultDataset, projectId } from "./client";
+
+/** Bumped when the tarball layout changes; restore refuses newer formats */
+const BACKUP_FORMAT = 1;
+
+/** Documents written per restore transaction */
+const BATCH_SIZE = 50;
+
+const ASSET_TYPES = ["sanity.imageAsset", "sanity.fileAsset"];
+const DRAFTS_PREFIX = "drafts.";
+
+interface Manifest {
+  format: number;
+  createdAt: string;
+  projectId: string;
+  dataset: string;
+  /** Type filter of the backup (null: every type) */
+  types: string[] | null;
+  documentCount: number;
+  assetCount: number;
+}
+
+type AssetDocument = SanityDocument & { url: string; originalFilename?: string };
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    types: { type: "string" },
+    out: { type: "string", default: "backups" },
+    dataset: { type: "string", default: defaultDataset },
+    "id-prefix": { type: "string", default: "" },
+    remap: { type: "string", multiple: true, default: [] },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+const [command, backupFile] = positionals;
+const types = options.types ? options.types.split(",").map((type) => type.trim()) : null;
+
+/** Asset folder of an asset document: "images" or "files" */
+function assetFolder(asset: SanityDocument): "images" | "files" {
+  return asset._type === "sanity.imageAsset" ? "images" : "files";
+}
+
+/** Every `_ref` in a document (asset and document references alike) */
+function collectRefs(value: unknown, refs = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === "object") {
+    const ref = (value as { _ref?: unknown })._ref;
+    if (typeof ref === "string") refs.add(ref);
+    Object.values(value).forEach((item) => collectRefs(item, refs));
+  }
+  return refs;
+}
+
+/** Copy of a document with every `_ref` found in ids replaced */
+function replaceRefs<T>(value: T, ids: Map<string, string>): T {
+  if (Array.isArray(value)) return value.map((item) => replaceRefs(item, ids)) as T;
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      key === "_ref" && typeof item === "string" ? (ids.get(item) ?? item) : replaceRefs(item, ids),
+    ])
+  ) as T;
+}
+
+/**
+ * Documents to restore: those of the selected types plus, transitively, the documents they
+ * reference. `added` lists the referenced ones, `missing` references not in the backup
+ * (e.g. one made with --types).
+ */
+function selectDocuments(
+  all: SanityDocument[],
+  selectedTypes: string[] | null
+): { documents: SanityDocument[]; added: SanityDocument[]; missing: string[] } {
+  const candidates = all.filter((doc) => !ASSET_TYPES.includes(doc._type));
+  const byId = new Map(all.map((doc) => [doc._id, doc]));
+  const selected = new Set(
+    selectedTypes ? candidates.filter((doc) => selectedTypes.includes(doc._type)) : candidates
+  );
+  const added: SanityDocument[] = [];
+  const missing = new Set<string>();
+  const queue = Array.from(selected);
+  for (let doc = queue.shift(); doc; doc = queue.shift()) {
+    collectRefs(doc).forEach((ref) => {
+      // A reference to an unpublished document resolves to its draft
+      const target = byId.get(ref) ?? byId.get(`${DRAFTS_PREFIX}${ref}`);
+      if (!target) {
+        missing.add(ref);
+      } else if (!ASSET_TYPES.includes(target._type) && !selected.has(target)) {
+        selected.add(target);
+        added.push(target);
+        queue.push(target);
+      }
+    });
+  }
+  // Keep the backup's order
+  return {
+    documents: candidates.filter((doc) => selected.has(doc)),
+    added,
+    missing: Array.from(missing),
+  };
+}
+
+/** New ID of a restored document; drafts follow their published document */
+function remapId(id: string, remap: Map<string, string>, prefix: string): string {
+  const isDraft = id.startsWith(DRAFTS_PREFIX);
+  const publishedId = isDraft ? id.slice(DRAFTS_PREFIX.length) : id;
+  const newId = remap.get(publishedId) ?? `${prefix}${publishedId}`;
+  return isDraft ? `${DRAFTS_PREFIX}${newId}` : newId;
+}
+
+async function backup(client: SanityClient) {
+  const documents = await client.fetch<SanityDocument[]>(
+    `*[!(_id in path("_.**")) && !(_type in $assetTypes) && (!defined($types) || _type in $types)]`,
+    { assetTypes: ASSET_TYPES, types }
+  );
+  const assetIds = Array.from(
+    new Set(documents.flatMap((doc) => Array.from(collectRefs(doc))))
+  ).filter((ref) => ref.startsWith("image-") || ref.startsWith("file-"));
+  const assets = await client.fetch<AssetDocument[]>(`*[_id in $assetIds]`, { assetIds });
+
+  const staging = await mkdtemp(path.join(tmpdir(), "sanity-backup-"));
+  try {
+    await mkdir(path.join(staging, "images"));
+    await mkdir(path.join(staging, "files"));
+
+    for (const asset of assets) {
+      const response = await fetch(asset.url);
+      if (!response.ok) throw new Error(`Downloading ${asset._id} failed: ${response.status}`);
+      const filename = path.basename(new URL(asset.url).pathname);
+      await writeFile(
+        path.join(staging, assetFolder(asset), filename),
+        Buffer.from(await response.arrayBuffer())
+      );
+      console.log(`Downloaded ${asset._id}`);
+    }
+
+    const manifest: Manifest = {
+      format: BACKUP_FORMAT,
+      createdAt: new Date().toISOString(),
+      projectId: projectId ?? "",
+      dataset: options.dataset,
+      types,
+      documentCount: documents.length,
+      assetCount: assets.length,
+    };
+    await writeFile(path.join(staging, "manifest.json"), JSON.stringify(manifest, null, 2));
+    await writeFile(
+      path.join(staging, "data.ndjson"),
+      [...documents, ...assets].map((doc) => JSON.stringify(doc)).join("\n") + "\n"
+    );
+
+    await mkdir(options.out, { recursive: true });
+    const stamp = manifest.createdAt.replace(/[:.]/g, "-");
+    const file = path.join(options.out, `${options.dataset}-${stamp}.tar.gz`);
+    await createTar({ gzip: true, file, cwd: staging }, await readdir(staging));
+    console.log(`Done. Backed up ${documents.length} document(s) and ${assets.length} asset(s) to ${file}`);
+  } finally {
+    await rm(staging, { recursive: true, force: true });
+  }
+}
+
+async function restore(client: SanityClient, file: string) {
+  const staging = await mkdtemp(path.join(tmpdir(), "sanity-restore-"));
+  try {
+    await extractTar({ file, cwd: staging });
+    const manifest = JSON.parse(await readFile(path.join(staging, "manifest.json"), "utf8")) as Manifest;
+    if (manifest.format > BACKUP_FORMAT) {
+      throw new Error(`Backup format ${manifest.format} is newer than this script (${BACKUP_FORMAT})`);
+    }
+
+    const all = (await readFile(path.join(staging, "data.ndjson"), "utf8"))
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as SanityDocument);
+    const { documents, added, missing } = selectDocuments(all, types);
+    if (added.length > 0) {
+      console.log(`Also restoring ${added.length} document(s) referenced by the selected types:`);
+      added.forEach((doc) => console.log(`  ${doc._type} ${doc._id}`));
+    }
+    if (missing.length > 0) {
+      // Left unchanged: they only resolve if the target dataset has these IDs
+      console.warn(`${missing.length} reference(s) to documents not in the backup, kept as they are:`);
+      missing.forEach((id) => console.warn(`  ${id}`));
+    }
+    const referenced = new Set(documents.flatMap((doc) => Array.from(collectRefs(doc))));
+    const assets = all.filter(
+      (doc): doc is AssetDocument => ASSET_TYPES.includes(doc._type) && referenced.has(doc._id)
+    );
+
+    const remap = new Map(
+      (options.remap ?? []).map((pair) => {
+        const [from, to] = pair.split("=");
+        if (!from || !to) throw new Error(`Invalid --remap "${pair}", expected old=new`);
+        return [from, to] as const;
+      })
+    );
+    const ids = new Map<string, string>();
+    for (const doc of documents) {
+      const publishedId = doc._id.replace(DRAFTS_PREFIX, "");
+      ids.set(publishedId, remapId(publishedId, remap, options["id-prefix"]));
+    }
+
+    const dryRun = options["dry-run"];
+    console.log(
+      `${dryRun ? "[dry run] " : ""}Restoring ${documents.length} document(s) and ${assets.length} asset(s) ` +
+        `from ${manifest.dataset} (${manifest.createdAt}) into ${options.dataset}`
+    );
+
+    // Uploading returns the asset's ID in the target project (usually the same, content-addressed)
+    for (const asset of assets) {
+      const folder = assetFolder(asset);
+      const filename = path.basename(new URL(asset.url).pathname);
+      if (dryRun) {
+        console.log(`[dry run] upload ${folder}/${filename}`);
+        continue;
+      }
+      const uploaded = await client.assets.upload(
+        folder === "images" ? "image" : "file",
+        await readFile(path.join(staging, folder, filename)),
+        { filename: asset.originalFilename }
+      );
+      ids.set(asset._id, uploaded._id);
+      console.log(`Uploaded ${asset._id} -> ${uploaded._id}`);
+    }
+
+    const restored = documents.map((doc) => ({
+      ...replaceRefs(doc, ids),
+      _id: remapId(doc._id, remap, options["id-prefix"]),
+    }));
+
+    for (let start = 0; start < restored.length; start += BATCH_SIZE) {
+      const batch = restored.slice(start, start + BATCH_SIZE);
+      if (dryRun) {
+        batch.forEach((doc, index) => {
+          const originalId = documents[start + index]._id;
+          const renamed = originalId === doc._id ? "" : ` (was ${originalId})`;
+          console.log(`[dry run] createOrReplace ${doc._type} ${doc._id}${renamed}`);
+        });
+        continue;
+      }
+      const transaction = client.transaction();
+      batch.forEach((doc) => transaction.createOrReplace(doc));
+      await transaction.commit();
+      console.log(`Restored documents ${start + 1}-${start + batch.length} of ${restored.length}`);
+    }
+
+    console.log(dryRun ? "Dry run: nothing was written." : `Done. Restored ${restored.length} document(s).`);
+  } finally {
+    await rm(staging, { recursive: true, force: true });
+  }
+}
+
+async function run() {
+  if (command === "backup") {
+    await backup(createScriptClient(options.dataset));
+  } else if (command === "restore" && backupFile) {
+    await restore(createScriptClient(options.dataset), backupFile);
+  } else {
+    console.error("Usage: dataset-backup.ts backup [options] | restore <backup.tar.gz> [options]");
+    process.exit(1);
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,177 @@
+/**
+ * Content migration runner
+ *
+ * Runs the migrations in ./migrations that the target dataset has not had yet, in order.
+ * Applied migrations are recorded in a ledger document (_id "migrations.ledger",
+ * not shown in the Studio). Each migration's patches are committed in transactions of
+ * BATCH_SIZE documents, guarded by the document revision they were computed from;
+ * the ledger entry is written with the last batch. Documents a change references
+ * (e.g. Mux asset documents) are created in the same transaction as its patch.
+ *
+ * A migration that reports content it left unmigrated (context.skip) is not recorded,
+ * and later migrations wait for it: fix the reported content and run again.
+ *
+ * Run from project root (with env vars set, see ./client.ts):
+ *   npx ts-node --compiler-options '{"module":"CommonJS"}' sanity/scripts/migrate.ts [options]
+ *
+ * Options:
+ *   --dry-run           print each pending migration's changes as a diff, without writing
+ *   --dataset staging   dataset to migrate (default NEXT_PUBLIC_SANITY_DATASET)
+ *   --mux-stand-in f    answer Mux API lookups from a JSON array of Mux assets (see ./mux.ts)
+ *                       instead of the Mux API (which needs MUX_TOKEN_ID and MUX_TOKEN_SECRET)
+ */
+
+import { parseArgs } from "util";
+import type { IdentifiedSanityDocumentStub, SanityClient, SanityDocument } from "@sanity/client";
+import { createScriptClient, defaultDataset } from "./client";
+import { createLocalMuxApi, createMuxApi, type MuxApi } from "./mux";
+import { migrations } from "./migrations";
+import {
+  randomKey,
+  type Migration,
+  type MigrationChange,
+  type MigrationContext,
+} from "./migrations/migration";
+
+const LEDGER_ID = "migrations.ledger";
+
+/** Documents patched per transaction */
+const BATCH_SIZE = 100;
+
+interface LedgerEntry {
+  _key: string;
+  id: string;
+  appliedAt: string;
+  documentCount: number;
+}
+
+type PendingPatch = { doc: SanityDocument } & MigrationChange;
+
+const { values: options } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    dataset: { type: "string", default: defaultDataset },
+    "mux-stand-in": { type: "string" },
+  },
+});
+
+let muxApi: Promise<MuxApi> | undefined;
+
+/** Mux API or stand-in, created on first use and shared by all migrations */
+function getMuxApi(): Promise<MuxApi> {
+  const standIn = options["mux-stand-in"];
+  muxApi ??= standIn ? createLocalMuxApi(standIn) : Promise.resolve(createMuxApi());
+  return muxApi;
+}
+
+/** Unified-style diff of the fields a patch sets, after the documents it creates */
+function formatDiff({ doc, set, create = [] }: PendingPatch): string {
+  const created = create.map((stub) => `  + create ${stub._type} ${stub._id}`);
+  const lines = Object.entries(set).flatMap(([field, value]) => [
+    `  - ${field}: ${JSON.stringify(doc[field])}`,
+    `  + ${field}: ${JSON.stringify(value)}`,
+  ]);
+  return [`${doc._type} ${doc._id}`, ...created, ...lines].join("\n");
+}
+
+/** Print what a migration left unmigrated */
+function reportSkipped(skipped: string[]) {
+  if (skipped.length === 0) return;
+  console.warn(`  ${skipped.length} item(s) left unmigrated; not recorded, rerun once they're fixed:`);
+  skipped.forEach((message) => console.warn(`    ${message}`));
+}
+
+/**
+ * Apply a migration's changes
+ *
+ * @returns Whether the migration is complete (recorded, or would be outside a dry run)
+ */
+async function runMigration(client: SanityClient, migration: Migration, dryRun: boolean) {
+  const skipped: string[] = [];
+  const context: MigrationContext = {
+    mux: getMuxApi,
+    skip: (message) => skipped.push(message),
+  };
+
+  const docs = await client.fetch<SanityDocument[]>(migration.query);
+  const patches: PendingPatch[] = [];
+  for (const doc of docs) {
+    const change = await migration.migrate(doc, context);
+    if (change) patches.push({ doc, ...change });
+  }
+
+  console.log(`${migration.id}: ${migration.description} (${patches.length} document(s))`);
+  const complete = skipped.length === 0;
+  if (dryRun) {
+    patches.forEach((patch) => console.log(formatDiff(patch)));
+    reportSkipped(skipped);
+    return complete;
+  }
+
+  const entry: LedgerEntry = {
+    _key: randomKey(),
+    id: migration.id,
+    appliedAt: new Date().toISOString(),
+    documentCount: patches.length,
+  };
+
+  // At least one transaction when complete, so a migration with nothing to patch is still recorded
+  for (let start = 0; start < patches.length || (complete && start === 0); start += BATCH_SIZE) {
+    const batch = patches.slice(start, start + BATCH_SIZE);
+    const transaction = client.transaction();
+    // Several documents may reference the same new document; create it once
+    const created = new Map<string, IdentifiedSanityDocumentStub>();
+    batch.forEach(({ create = [] }) => create.forEach((stub) => created.set(stub._id, stub)));
+    created.forEach((stub) => transaction.createIfNotExists(stub));
+    batch.forEach(({ doc, set }) =>
+      transaction.patch(doc._id, (patch) => patch.ifRevisionId(doc._rev).set(set))
+    );
+    if (complete && start + BATCH_SIZE >= patches.length) {
+      transaction
+        .createIfNotExists({ _id: LEDGER_ID, _type: "migrationLedger", applied: [] })
+        .patch(LEDGER_ID, (patch) => patch.append("applied", [entry]));
+    }
+    await transaction.commit();
+    if (batch.length > 0) {
+      console.log(`  patched ${start + 1}-${start + batch.length} of ${patches.length}`);
+    }
+  }
+  reportSkipped(skipped);
+  return complete;
+}
+
+async function run() {
+  const client = createScriptClient(options.dataset);
+  const dryRun = options["dry-run"];
+
+  const applied = new Set(
+    await client.fetch<string[]>(`coalesce(*[_id == $id][0].applied[].id, [])`, { id: LEDGER_ID })
+  );
+  const pending = migrations.filter((migration) => !applied.has(migration.id));
+
+  if (pending.length === 0) {
+    console.log(`Dataset ${options.dataset} is up to date (${applied.size} migration(s) applied).`);
+    return;
+  }
+
+  let completed = 0;
+  for (const migration of pending) {
+    if (!(await runMigration(client, migration, dryRun))) break;
+    completed++;
+  }
+  const waiting = pending.length - completed;
+  console.log(
+    dryRun
+      ? `Dry run: ${pending.length} pending migration(s), nothing was written.`
+      : `Done. Applied ${completed} migration(s) to ${options.dataset}.`
+  );
+  if (waiting > 0) {
+    console.warn(`${waiting} migration(s) still pending: ${pending[completed].id} left content unmigrated.`);
+    process.exitCode = 1;
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import type { Migration } from "./migration";
+import { randomKey } from "./migration";
+
+/**
+ * Convert project "title" from string to portable text (one block)
+ * so existing content is preserved after changing the schema to block content.
+ */
+
+function stringToBlockContent(text: string): { _type: string; _key: string; children: { _type: string; _key: string; text: string; marks: string[] }[]; markDefs: unknown[] } {
+  return {
+    _type: "block",
+    _key: randomKey(),
+    children: [
+      {
+        _type: "span",
+        _key: randomKey(),
+        text,
+        marks: [],
+      },
+    ],
+    markDefs: [],
+  };
+}
+
+const migration: Migration = {
+  id: "001-project-titles-to-blocks",
+  description: "Project titles: string -> 1 portable text block",
+  query: `*[_type == "project"]{ _id, _rev, title }`,
+  migrate(doc) {
+    if (typeof doc.title !== "string") return null;
+    return { set: { title: [stringToBlockContent(doc.title)] } };
+  },
+};
+
+export default migration;
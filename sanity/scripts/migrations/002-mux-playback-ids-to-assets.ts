@@ -0,0 +1,110 @@
+import type { IdentifiedSanityDocumentStub, SanityDocument } from "@sanity/client";
+import type { MuxAsset } from "../mux";
+import type { Migration, MigrationChange, MigrationContext } from "./migration";
+
+/**
+ * Convert pasted Mux playback IDs (video.muxPlaybackId strings on homepage items and
+ * project slides) into "mux.video" fields referencing a "mux.videoAsset" document, as
+ * created by Studio uploads (sanity-plugin-mux-input).
+ *
+ * Each playback ID is looked up in the Mux API for its asset (aspect ratio, duration, ...).
+ * IDs Mux doesn't know are left as they are and reported, and the migration is not recorded
+ * until a rerun converts them all (fix or remove them in the Studio first). The site keeps
+ * playing them meanwhile.
+ */
+
+type VideoObject = { muxPlaybackId?: string; muxVideo?: unknown; [field: string]: unknown };
+type ArrayItem = { _key: string; _type?: string; video?: VideoObject | null } & VideoObject;
+
+/** Document ID of the asset document for a Mux asset (stable, so reruns don't duplicate it) */
+function assetDocumentId(asset: MuxAsset): string {
+  return `mux-video-asset-${asset.id}`;
+}
+
+/** mux.videoAsset document, shaped like the ones the Studio plugin creates */
+function toAssetDocument(asset: MuxAsset, playbackId: string): IdentifiedSanityDocumentStub {
+  return {
+    _id: assetDocumentId(asset),
+    _type: "mux.videoAsset",
+    assetId: asset.id,
+    playbackId,
+    status: asset.status,
+    filename: `Mux asset ${asset.id}`,
+    data: asset,
+  };
+}
+
+/** Video object with its pasted ID replaced by a reference to the asset document */
+function toMuxVideo(video: VideoObject, asset: MuxAsset): VideoObject {
+  const rest = { ...video };
+  delete rest.muxPlaybackId;
+  return {
+    ...rest,
+    muxVideo: {
+      _type: "mux.video",
+      asset: { _type: "reference", _ref: assetDocumentId(asset), _weak: true },
+    },
+  };
+}
+
+/** Video object of an array item: homepage items nest it, project slides are one */
+function videoOf(item: ArrayItem, field: "items" | "slideshowImages"): VideoObject | null {
+  if (field === "items") return item.video ?? null;
+  return item._type === "video" ? item : null;
+}
+
+/** Pasted playback ID of a video that has not been converted yet */
+function pendingPlaybackId(video: VideoObject | null | undefined): string | null {
+  if (!video || video.muxVideo || typeof video.muxPlaybackId !== "string") return null;
+  return video.muxPlaybackId.trim() || null;
+}
+
+async function migrateItems(
+  doc: SanityDocument,
+  field: "items" | "slideshowImages",
+  context: MigrationContext
+): Promise<MigrationChange | null> {
+  const mux = await context.mux();
+  const items = (doc[field] ?? []) as ArrayItem[];
+  const create: IdentifiedSanityDocumentStub[] = [];
+  let changed = false;
+
+  const migrated: ArrayItem[] = [];
+  for (const item of items) {
+    const video = videoOf(item, field);
+    const playbackId = pendingPlaybackId(video);
+    if (!video || !playbackId) {
+      migrated.push(item);
+      continue;
+    }
+
+    const asset = await mux.getAssetByPlaybackId(playbackId);
+    if (!asset) {
+      context.skip(`${doc._id} ${field}[_key=="${item._key}"]: Mux has no asset for ${playbackId}`);
+      migrated.push(item);
+      continue;
+    }
+
+    create.push(toAssetDocument(asset, playbackId));
+    const muxVideo = toMuxVideo(video, asset);
+    migrated.push(field === "items" ? { ...item, video: muxVideo } : (muxVideo as ArrayItem));
+    changed = true;
+  }
+
+  return changed ? { set: { [field]: migrated }, create } : null;
+}
+
+const migration: Migration = {
+  id: "002-mux-playback-ids-to-assets",
+  description: "Videos: pasted Mux playback IDs -> Mux video asset references",
+  query: `*[_type in ["homepage", "project"]]{ _id, _rev, _type, items, slideshowImages }`,
+  async migrate(doc, context) {
+    const field = doc._type === "homepage" ? "items" : "slideshowImages";
+    const items = (doc[field] ?? []) as ArrayItem[];
+    const hasPending = items.some((item) => pendingPlaybackId(videoOf(item, field)));
+    if (!hasPending) return null;
+    return migrateItems(doc, field, context);
+  },
+};
+
+export default migration;
@@ -0,0 +1,6 @@
+import type { Migration } from "./migration";
+import projectTitlesToBlocks from "./001-project-titles-to-blocks";
+import muxPlaybackIdsToAssets from "./002-mux-playback-ids-to-assets";
+
+/** All migrations, in the order they run. Append new ones here. */
+export const migrations: Migration[] = [projectTitlesToBlocks, muxPlaybackIdsToAssets];
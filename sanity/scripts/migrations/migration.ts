@@ -0,0 +1,48 @@
+import { randomBytes } from "crypto";
+import type { IdentifiedSanityDocumentStub, SanityDocument } from "@sanity/client";
+import type { MuxApi } from "../mux";
+
+/**
+ * A content migration, run once per dataset by sanity/scripts/migrate.ts.
+ *
+ * Migrations live in numbered files in this folder and are listed in ./index.ts.
+ * migrate() must be idempotent (return null for documents already migrated):
+ * a run that fails halfway is finished by running it again.
+ */
+
+/** Change to one document */
+export interface MigrationChange {
+  /** Fields to set on the document */
+  set: Record<string, unknown>;
+  /** Documents the new values reference (e.g. asset documents), created unless they exist */
+  create?: IdentifiedSanityDocumentStub[];
+}
+
+/** External services (created when a migration first asks for them) and reporting */
+export interface MigrationContext {
+  /** Mux API, or the local stand-in passed with --mux-stand-in */
+  mux(): Promise<MuxApi>;
+  /**
+   * Report content left unmigrated (e.g. an ID the Mux API doesn't know). The migration is
+   * then not recorded in the ledger, so the next run retries it.
+   */
+  skip(message: string): void;
+}
+
+export interface Migration {
+  /** Ledger ID: the file name without extension, e.g. "001-project-titles-to-blocks" */
+  id: string;
+  description: string;
+  /** GROQ query for the documents to migrate; must return _id and _rev with the fields migrate() reads */
+  query: string;
+  /** Change to a document, or null when it needs none */
+  migrate(
+    doc: SanityDocument,
+    context: MigrationContext
+  ): MigrationChange | null | Promise<MigrationChange | null>;
+}
+
+/** Array item `_key`: 12 random hex characters */
+export function randomKey(): string {
+  return randomBytes(6).toString("hex");
+}
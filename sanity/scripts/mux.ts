@@ -0,0 +1,68 @@
+/**
+ * Mux API access for the scripts in this folder.
+ *
+ * Scripts talk to Mux through the MuxApi interface, so a run can use either the real
+ * API or a local stand-in (a JSON file of Mux asset objects) without a Mux account.
+ *
+ * Environment variables (real API only):
+ * - MUX_TOKEN_ID, MUX_TOKEN_SECRET: Mux access token with read access to Video
+ */
+
+import { readFile } from "fs/promises";
+
+/** Mux asset, as returned by GET /video/v1/assets/{id} (fields the scripts read) */
+export interface MuxAsset {
+  id: string;
+  status: string;
+  created_at?: string;
+  aspect_ratio?: string;
+  duration?: number;
+  playback_ids?: { id: string; policy: string }[];
+  [field: string]: unknown;
+}
+
+export interface MuxApi {
+  /** Asset a playback ID belongs to, or null when Mux doesn't know the ID */
+  getAssetByPlaybackId(playbackId: string): Promise<MuxAsset | null>;
+}
+
+const MUX_API_URL = "https://api.mux.com";
+
+/** Client for the Mux API; exits when the env vars are missing */
+export function createMuxApi(): MuxApi {
+  const tokenId = process.env.MUX_TOKEN_ID;
+  const tokenSecret = process.env.MUX_TOKEN_SECRET;
+  if (!tokenId || !tokenSecret) {
+    console.error("Set MUX_TOKEN_ID and MUX_TOKEN_SECRET (or pass --mux-stand-in <assets.json>)");
+    process.exit(1);
+  }
+  const authorization = `Basic ${Buffer.from(`${tokenId}:${tokenSecret}`).toString("base64")}`;
+
+  /** Response data of a GET, or null on 404 */
+  async function get<T>(path: string): Promise<T | null> {
+    const response = await fetch(`${MUX_API_URL}${path}`, { headers: { authorization } });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Mux API ${path} failed: ${response.status}`);
+    return ((await response.json()) as { data: T }).data;
+  }
+
+  return {
+    async getAssetByPlaybackId(playbackId) {
+      const playback = await get<{ object: { type: string; id: string } }>(
+        `/video/v1/playback-ids/${encodeURIComponent(playbackId)}`
+      );
+      if (playback?.object.type !== "asset") return null;
+      return get<MuxAsset>(`/video/v1/assets/${encodeURIComponent(playback.object.id)}`);
+    },
+  };
+}
+
+/** Stand-in answering from a JSON array of Mux asset objects (e.g. saved API responses) */
+export async function createLocalMuxApi(file: string): Promise<MuxApi> {
+  const assets = JSON.parse(await readFile(file, "utf8")) as MuxAsset[];
+  return {
+    async getAssetByPlaybackId(playbackId) {
+      return assets.find((asset) => asset.playback_ids?.some((id) => id.id === playbackId)) ?? null;
+    },
+  };
+}